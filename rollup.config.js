@@ -3,7 +3,7 @@ import { nodeResolve } from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import terser from '@rollup/plugin-terser';
 
-export default {
+export default [{
     input: 'src/main.ts',
     output: [
         {
@@ -32,4 +32,24 @@ export default {
         nodeResolve(),
         commonjs(),
     ],
-};
\ No newline at end of file
+}, {
+    input: 'src/testing.ts',
+    output: [
+        {
+            file: 'lib/testing.esm.js',
+            format: 'esm',
+            sourcemap: true,
+        },
+        {
+            file: 'lib/testing.umd.js',
+            format: 'umd',
+            name: 'CookieTesting',
+            sourcemap: true,
+        },
+    ],
+    plugins: [
+        typescript(),
+        nodeResolve(),
+        commonjs(),
+    ],
+}];
@@ -0,0 +1,411 @@
+import type { Cookie, CookieAttributes, CookieOptions, CookieRemoveAttributes, CookieScopedAttributes } from './main';
+import { CookieConverter, decode, DefaultCookieConverter, encode } from './converter';
+import { CookieSerializer, DefaultCookieSerializer } from './serializer';
+
+export type CookieStoreItem = {
+    name: string;
+    value: string;
+    domain?: string | null;
+    path?: string;
+    expires?: number | null;
+    secure?: boolean;
+    sameSite?: 'strict' | 'lax' | 'none';
+    partitioned?: boolean;
+};
+
+export type CookieStore = {
+    get(name: string): Promise<CookieStoreItem | null>;
+    getAll(): Promise<CookieStoreItem[]>;
+    set(options: { name: string, value: string, expires?: number | null, path?: string, domain?: string | null, sameSite?: 'strict' | 'lax' | 'none', partitioned?: boolean }): Promise<void>;
+    delete(options: { name: string, path?: string, domain?: string | null }): Promise<void>;
+    addEventListener(type: 'change', listener: () => void): void;
+    removeEventListener(type: 'change', listener: () => void): void;
+};
+
+export type AsyncCookieItem = {
+    key: string;
+    value: any;
+    domain?: string | null;
+    path?: string;
+    expires?: number | null;
+    secure?: boolean;
+    sameSite?: 'strict' | 'lax' | 'none';
+    partitioned?: boolean;
+};
+
+export type AsyncCookieOptions = CookieScopedAttributes & {
+    ttl?: number | null;
+    converter?: CookieConverter;
+    serializer?: CookieSerializer;
+    store?: CookieStore | null;
+};
+
+export class AsyncCookie {
+    /**
+     * Default Async Cookie instance used by the static methods.
+     *
+     * @type { AsyncCookie | null }
+     */
+    static #instance: AsyncCookie | null = null;
+
+    /**
+     * Factory creating the Cookie instance used when the CookieStore is not available, registered by the Cookie class.
+     *
+     * @type { ((options: CookieOptions) => Cookie) | null }
+     */
+    static #factory: ((options: CookieOptions) => Cookie) | null = null;
+
+    /**
+     * CookieStore used to read and write cookies, or null if the platform does not provide one.
+     *
+     * @type { CookieStore | null }
+     */
+    #store: CookieStore | null;
+
+    /**
+     * Cookie instance used to read and write cookies when the CookieStore is not available.
+     *
+     * @type { Cookie }
+     */
+    #cookie: Cookie;
+
+    /**
+     * Converter used to encode and decode cookie values.
+     *
+     * @type { CookieConverter }
+     */
+    #converter: CookieConverter;
+
+    /**
+     * Serializer used to convert values to and from their stored string representation.
+     *
+     * @type { CookieSerializer }
+     */
+    #serializer: CookieSerializer;
+
+    /**
+     * Default item validity period in seconds.
+     *
+     * @type { number | null }
+     */
+    #ttl: number | null;
+
+    /**
+     * Default attributes applied to every written cookie.
+     *
+     * @type { CookieScopedAttributes }
+     */
+    #attributes: CookieScopedAttributes;
+
+    /**
+     * Create a new Async Cookie instance.
+     *
+     * @param { AsyncCookieOptions } options Async Cookie instance configuration options.
+     */
+    constructor(options: AsyncCookieOptions = {}) {
+        const { ttl = null, converter = new DefaultCookieConverter, serializer = new DefaultCookieSerializer, store, ...attributes } = options;
+
+        if (AsyncCookie.#factory === null) {
+            throw new Error('The Cookie fallback is not registered, import the AsyncCookie from the package entry point.');
+        }
+
+        this.#store = store === undefined ? (globalThis as { cookieStore?: CookieStore }).cookieStore ?? null : store;
+        this.#cookie = AsyncCookie.#factory({ ...attributes, ttl, converter, serializer });
+        this.#converter = converter;
+        this.#serializer = serializer;
+        this.#ttl = ttl;
+        this.#attributes = attributes;
+    }
+
+    /**
+     * Register the factory creating the Cookie instance used when the CookieStore is not available.
+     *
+     * The Cookie class registers itself, so that this module does not import it.
+     *
+     * @param { (options: CookieOptions) => Cookie } factory Function creating the Cookie instance.
+     */
+    static fallback(factory: (options: CookieOptions) => Cookie): void {
+        this.#factory = factory;
+    }
+
+    /**
+     * Create a new Async Cookie instance.
+     *
+     * @param { AsyncCookieOptions } options Async Cookie instance configuration options.
+     *
+     * @returns { AsyncCookie }
+     */
+    static create(options: AsyncCookieOptions = {}): AsyncCookie {
+        return new AsyncCookie(options);
+    }
+
+    /**
+     * Set the key to the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { * } value Value you want to give the key you are creating.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { Promise<void> }
+     */
+    static set(key: string, value: any, attributes: CookieAttributes = {}): Promise<void> {
+        return this.#default().set(key, value, attributes);
+    }
+
+    /**
+     * Get the key from the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to get.
+     * @param { * } fallback Value or function returning the value used if the key does not exist.
+     *
+     * @returns { Promise<*> }
+     */
+    static get(key: string, fallback: any = null): Promise<any> {
+        return this.#default().get(key, fallback);
+    }
+
+    /**
+     * Get the key from the Cookie, or execute the given callback and store the result.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { Function } callback Function you want to execute.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { Promise<*> }
+     */
+    static remember(key: string, callback: Function, attributes: CookieAttributes = {}): Promise<any> {
+        return this.#default().remember(key, callback, attributes);
+    }
+
+    /**
+     * Return all items stored in the Cookie, including their metadata where the platform provides it.
+     *
+     * @returns { Promise<AsyncCookieItem[]> }
+     */
+    static all(): Promise<AsyncCookieItem[]> {
+        return this.#default().all();
+    }
+
+    /**
+     * Removes a key from the cookie.
+     *
+     * @param { string } key The name of the cookie key to remove.
+     * @param { CookieRemoveAttributes } attributes Attributes the cookie was set with.
+     *
+     * @returns { Promise<boolean> } Whether the key is gone.
+     */
+    static remove(key: string, attributes: CookieRemoveAttributes = {}): Promise<boolean> {
+        return this.#default().remove(key, attributes);
+    }
+
+    /**
+     * Determine if the key exists in the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to check against.
+     *
+     * @returns { Promise<boolean> }
+     */
+    static has(key: string): Promise<boolean> {
+        return this.#default().has(key);
+    }
+
+    /**
+     * Updates the item expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { number | null } ttl Item validity period in seconds.
+     * @param { object } attributes Optional cookie attributes (only `path` is allowed).
+     *
+     * @returns { Promise<void> }
+     */
+    static touch(key: string, ttl: number | null = null, attributes: Pick<CookieAttributes, 'path'> = {}): Promise<void> {
+        return this.#default().touch(key, ttl, attributes);
+    }
+
+    /**
+     * Set the key to the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { * } value Value you want to give the key you are creating.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { Promise<void> }
+     */
+    async set(key: string, value: any, attributes: CookieAttributes = {}): Promise<void> {
+        if (this.#store === null) {
+            this.#cookie.set(key, value, attributes);
+
+            return;
+        }
+
+        const { ttl, maxAge, expires, path, domain, sameSite, secure, partitioned, httpOnly } = { ...this.#attributes, ...attributes };
+        const validity: number | null = ttl ?? this.#ttl;
+
+        if (sameSite === 'None' && !secure) {
+            throw new Error('The "secure" attribute must be set to "true" if "sameSite" is set to "None".');
+        }
+
+        if (partitioned && !secure) {
+            throw new Error('The "secure" attribute must be set to "true" if "partitioned" is set to "true".');
+        }
+
+        if (httpOnly) {
+            throw new Error('The "httpOnly" attribute can only be set when using a server-side driver.');
+        }
+
+        let expiration: number | null = expires ? new Date(expires).getTime() : null;
+
+        if (validity) {
+            expiration = Date.now() + validity * 1000;
+        }
+
+        if (maxAge !== undefined) {
+            expiration = Date.now() + maxAge * 1000;
+        }
+
+        await this.#store.set({
+            name    : encode(key),
+            value   : this.#converter.write(this.#serializer.stringify(value), key),
+            expires : expiration,
+            path    : path ?? '/',
+            domain  : domain ?? null,
+            sameSite: sameSite?.toLowerCase() as 'strict' | 'lax' | 'none' | undefined,
+            ...(partitioned ? { partitioned } : {}),
+        });
+    }
+
+    /**
+     * Get the key from the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to get.
+     * @param { * } fallback Value or function returning the value used if the key does not exist.
+     *
+     * @returns { Promise<*> }
+     */
+    async get(key: string, fallback: any = null): Promise<any> {
+        if (this.#store === null) {
+            return this.#cookie.get(key, fallback);
+        }
+
+        const cookie: CookieStoreItem | null = await this.#store.get(encode(key));
+
+        if (cookie === null) {
+            return fallback instanceof Function ? fallback() : fallback ?? null;
+        }
+
+        return this.#serializer.parse(this.#converter.read(cookie.value, key));
+    }
+
+    /**
+     * Get the key from the Cookie, or execute the given callback and store the result.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { Function } callback Function you want to execute.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { Promise<*> }
+     */
+    async remember(key: string, callback: Function, attributes: CookieAttributes = {}): Promise<any> {
+        const cookie: any = await this.get(key);
+
+        if (cookie !== null) {
+            return cookie;
+        }
+
+        const value: any = await callback();
+
+        await this.set(key, value, attributes);
+
+        return value;
+    }
+
+    /**
+     * Return all items stored in the Cookie, including their metadata where the platform provides it.
+     *
+     * @returns { Promise<AsyncCookieItem[]> }
+     */
+    async all(): Promise<AsyncCookieItem[]> {
+        if (this.#store === null) {
+            return this.#cookie.all();
+        }
+
+        return (await this.#store.getAll()).map(({ name, value, ...metadata }: CookieStoreItem): AsyncCookieItem => {
+            const key: string = decode(name);
+
+            return { key, value: this.#serializer.parse(this.#converter.read(value, key)), ...metadata };
+        });
+    }
+
+    /**
+     * Removes a key from the cookie.
+     *
+     * In the "everywhere" mode, every cookie of the key reported by the CookieStore is removed with its own path and
+     * domain.
+     *
+     * @param { string } key The name of the cookie key to remove.
+     * @param { CookieRemoveAttributes } attributes Attributes the cookie was set with.
+     *
+     * @returns { Promise<boolean> } Whether the key is gone.
+     */
+    async remove(key: string, attributes: CookieRemoveAttributes = {}): Promise<boolean> {
+        if (this.#store === null) {
+            return this.#cookie.remove(key, attributes);
+        }
+
+        const { everywhere = false, ...rest } = attributes;
+        const { path, domain } = { ...this.#attributes, ...rest };
+        const name: string = encode(key);
+        const scopes: Pick<CookieStoreItem, 'path' | 'domain'>[] = everywhere
+            ? (await this.#store.getAll()).filter((cookie: CookieStoreItem): boolean => cookie.name === name)
+            : [{ path, domain }];
+
+        for (const scope of scopes) {
+            await this.#store.delete({ name, path: scope.path ?? '/', domain: scope.domain ?? null });
+        }
+
+        return await this.#store.get(name) === null;
+    }
+
+    /**
+     * Determine if the key exists in the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to check against.
+     *
+     * @returns { Promise<boolean> }
+     */
+    async has(key: string): Promise<boolean> {
+        return !!await this.get(key);
+    }
+
+    /**
+     * Updates the item expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { number | null } ttl Item validity period in seconds.
+     * @param { object } attributes Optional cookie attributes (only `path` is allowed).
+     *
+     * @returns { Promise<void> }
+     */
+    async touch(key: string, ttl: number | null = null, attributes: Pick<CookieAttributes, 'path'> = {}): Promise<void> {
+        const cookie: any = await this.get(key);
+
+        if (cookie === null) {
+            return;
+        }
+
+        ttl ??= this.#ttl;
+
+        await this.set(key, cookie, { ttl, ...attributes });
+    }
+
+    /**
+     * Get the default Async Cookie instance, creating it on first use.
+     *
+     * @returns { AsyncCookie }
+     */
+    static #default(): AsyncCookie {
+        this.#instance ??= new AsyncCookie;
+
+        return this.#instance;
+    }
+}
@@ -0,0 +1,222 @@
+import type { Cookie, CookieAttributes } from './main';
+import type { CookieDriver } from './drivers';
+
+export type CookieConsentCategory = 'necessary' | 'functional' | 'analytics' | 'marketing' | (string & {});
+
+export type CookieConsentOptions = {
+    key: string;
+    queue: boolean;
+    ttl: number | null;
+};
+
+type CookieConsentEntry = {
+    key: string;
+    path?: string;
+    domain?: string;
+};
+
+type CookieConsentState = {
+    granted: string[];
+    keys: Record<string, CookieConsentEntry[]>;
+};
+
+export class CookieConsent {
+    /**
+     * Writes waiting for consent, grouped by category, one list per driver.
+     *
+     * @type { WeakMap<CookieDriver, Map<string, (() => void)[]>> }
+     */
+    static #queues: WeakMap<CookieDriver, Map<string, (() => void)[]>> = new WeakMap;
+
+    /**
+     * Cookie instance used to read and write the consent state and purge the revoked keys.
+     *
+     * @type { Cookie }
+     */
+    #cookie: Cookie;
+
+    /**
+     * Driver the consent state is stored in.
+     *
+     * @type { CookieDriver }
+     */
+    #driver: CookieDriver;
+
+    /**
+     * Consent configuration options.
+     *
+     * @type { CookieConsentOptions }
+     */
+    #options: CookieConsentOptions;
+
+    /**
+     * Create a new Cookie Consent instance.
+     *
+     * @param { Cookie } cookie Cookie instance used to read and write the consent state and purge the revoked keys.
+     * @param { CookieDriver } driver Driver the consent state is stored in.
+     * @param { CookieConsentOptions } options Consent configuration options.
+     */
+    constructor(cookie: Cookie, driver: CookieDriver, options: CookieConsentOptions) {
+        this.#cookie = cookie;
+        this.#driver = driver;
+        this.#options = options;
+    }
+
+    /**
+     * Grant consent to the categories, applying the writes waiting for it.
+     *
+     * @param { CookieConsentCategory[] } categories Names of the categories.
+     */
+    grant(...categories: CookieConsentCategory[]): void {
+        const state: CookieConsentState = this.#state();
+
+        state.granted = [...new Set([...state.granted, ...categories])];
+
+        this.#save(state);
+
+        categories.forEach((category: CookieConsentCategory): void => {
+            const queue: (() => void)[] = this.#queue().get(category) ?? [];
+
+            this.#queue().delete(category);
+
+            queue.forEach((write: () => void): void => write());
+        });
+    }
+
+    /**
+     * Revoke consent to the categories, removing their keys and discarding the writes waiting for it.
+     *
+     * @param { CookieConsentCategory[] } categories Names of the categories.
+     */
+    revoke(...categories: CookieConsentCategory[]): void {
+        if (categories.includes('necessary')) {
+            throw new Error('The "necessary" category cannot be revoked.');
+        }
+
+        const state: CookieConsentState = this.#state();
+
+        categories.forEach((category: CookieConsentCategory): void => {
+            (state.keys[category] ?? []).forEach(({ key, ...attributes }: CookieConsentEntry): void => {
+                this.#cookie.remove(key, attributes);
+            });
+
+            delete state.keys[category];
+
+            this.#queue().delete(category);
+        });
+
+        state.granted = state.granted.filter((category: string): boolean => !categories.includes(category));
+
+        this.#save(state);
+    }
+
+    /**
+     * Determine if consent is granted to the category, the "necessary" category always being granted.
+     *
+     * @param { CookieConsentCategory } category Name of the category.
+     *
+     * @returns { boolean }
+     */
+    granted(category: CookieConsentCategory): boolean {
+        return category === 'necessary' || this.#state().granted.includes(category);
+    }
+
+    /**
+     * Get the list of categories consent is granted to.
+     *
+     * @returns { CookieConsentCategory[] }
+     */
+    categories(): CookieConsentCategory[] {
+        return ['necessary', ...this.#state().granted.filter((category: string): boolean => category !== 'necessary')];
+    }
+
+    /**
+     * Queue the write until consent to the category is granted, if queueing is enabled.
+     *
+     * @param { CookieConsentCategory } category Name of the category.
+     * @param { () => void } write Function writing the key.
+     */
+    defer(category: CookieConsentCategory, write: () => void): void {
+        if (!this.#options.queue) {
+            return;
+        }
+
+        this.#queue().set(category, [...this.#queue().get(category) ?? [], write]);
+    }
+
+    /**
+     * Remember the key belongs to the category, so that it is removed once consent is revoked.
+     *
+     * Keys written without a path are remembered with the default path the browser stores them on.
+     *
+     * @param { CookieConsentCategory } category Name of the category.
+     * @param { string } key Name of the key, including the namespace.
+     * @param { CookieAttributes } attributes Attributes the key was written with.
+     */
+    track(category: CookieConsentCategory, key: string, attributes: CookieAttributes): void {
+        const state: CookieConsentState = this.#state();
+        const entries: CookieConsentEntry[] = state.keys[category] ?? [];
+        const { path = this.#path(), domain } = attributes;
+
+        if (category === 'necessary' || entries.some((entry: CookieConsentEntry): boolean => entry.key === key && entry.path === path && entry.domain === domain)) {
+            return;
+        }
+
+        state.keys[category] = [...entries, { key, ...(path === undefined ? {} : { path }), ...(domain === undefined ? {} : { domain }) }];
+
+        this.#save(state);
+    }
+
+    /**
+     * Get the default path of the cookies written without a path, as defined by RFC 6265.
+     *
+     * @returns { string | undefined }
+     */
+    #path(): string | undefined {
+        const location: { pathname: string } | undefined = (globalThis as { location?: { pathname: string } }).location;
+
+        if (location === undefined || this.#driver.server) {
+            return undefined;
+        }
+
+        const index: number = location.pathname.lastIndexOf('/');
+
+        return index <= 0 ? '/' : location.pathname.slice(0, index);
+    }
+
+    /**
+     * Read the consent state from the Cookie.
+     *
+     * @returns { CookieConsentState }
+     */
+    #state(): CookieConsentState {
+        const state: any = this.#cookie.get(this.#options.key);
+
+        return {
+            granted: Array.isArray(state?.granted) ? state.granted : [],
+            keys   : typeof state?.keys === 'object' && state.keys !== null ? state.keys : {},
+        };
+    }
+
+    /**
+     * Write the consent state to the Cookie.
+     *
+     * @param { CookieConsentState } state Consent state.
+     */
+    #save(state: CookieConsentState): void {
+        this.#cookie.set(this.#options.key, state, { ttl: this.#options.ttl });
+    }
+
+    /**
+     * Get the writes waiting for consent on the driver.
+     *
+     * @returns { Map<string, (() => void)[]> }
+     */
+    #queue(): Map<string, (() => void)[]> {
+        if (!CookieConsent.#queues.has(this.#driver)) {
+            CookieConsent.#queues.set(this.#driver, new Map);
+        }
+
+        return CookieConsent.#queues.get(this.#driver) as Map<string, (() => void)[]>;
+    }
+}
@@ -0,0 +1,81 @@
+export interface CookieConverter {
+    /**
+     * Convert the raw cookie value into its stored string representation.
+     *
+     * @param { string } value Raw cookie value.
+     * @param { string } key Name of the cookie.
+     *
+     * @returns { string }
+     */
+    read(value: string, key: string): string;
+
+    /**
+     * Convert the stored string representation into a raw cookie value.
+     *
+     * @param { string } value Serialized value.
+     * @param { string } key Name of the cookie.
+     *
+     * @returns { string }
+     */
+    write(value: string, key: string): string;
+}
+
+export class DefaultCookieConverter implements CookieConverter {
+    /**
+     * Decode percent-encoded sequences of the raw cookie value.
+     *
+     * Values that were not written by the converter (e.g. set by the backend) are returned as they are.
+     *
+     * @param { string } value Raw cookie value.
+     * @param { string } key Name of the cookie.
+     *
+     * @returns { string }
+     */
+    read(value: string, key: string): string {
+        if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) {
+            value = value.slice(1, -1);
+        }
+
+        return value.replace(/(%[\dA-F]{2})+/gi, decode);
+    }
+
+    /**
+     * Percent-encode all characters not allowed in the cookie value by RFC 6265.
+     *
+     * @param { string } value Serialized value.
+     * @param { string } key Name of the cookie.
+     *
+     * @returns { string }
+     */
+    write(value: string, key: string): string {
+        return encodeURIComponent(value).replace(/%(2[346BF]|3[AC-F]|40|5[BDE]|60|7[BCD])/g, decodeURIComponent);
+    }
+}
+
+/**
+ * Percent-encode all characters not allowed in the cookie name by RFC 6265.
+ *
+ * @param { string } key Name of the cookie.
+ *
+ * @returns { string }
+ */
+export function encode(key: string): string {
+    return encodeURIComponent(key)
+        .replace(/%(2[346B]|5E|60|7C)/g, decodeURIComponent)
+        .replace(/[()]/g, (character: string): string => `%${character.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Decode percent-encoded sequences, leaving malformed ones untouched.
+ *
+ * @param { string } value Percent-encoded string.
+ *
+ * @returns { string }
+ */
+export function decode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Encode the bytes as a base64url string without padding.
+ *
+ * @param { ArrayBuffer | Uint8Array } bytes Bytes to encode.
+ *
+ * @returns { string }
+ */
+export function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+    let binary: string = '';
+
+    new Uint8Array(bytes).forEach((byte: number): void => {
+        binary += String.fromCharCode(byte);
+    });
+
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode the base64url string into bytes.
+ *
+ * @param { string } value Base64url encoded string.
+ *
+ * @returns { Uint8Array }
+ */
+export function fromBase64Url(value: string): Uint8Array {
+    const binary: string = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+    return Uint8Array.from(binary, (character: string): number => character.charCodeAt(0));
+}
+
+/**
+ * Get the WebCrypto interface, throwing if the platform does not provide one.
+ *
+ * @returns { Crypto }
+ */
+export function webcrypto(): Crypto {
+    if (typeof crypto === 'undefined' || crypto.subtle === undefined) {
+        throw new Error('The WebCrypto API is not available in the current environment.');
+    }
+
+    return crypto;
+}
+
+/**
+ * Get the WebCrypto subtle interface, throwing if the platform does not provide one.
+ *
+ * @returns { SubtleCrypto }
+ */
+export function subtle(): SubtleCrypto {
+    return webcrypto().subtle;
+}
@@ -0,0 +1,162 @@
+import type { CookieConsentCategory } from './consent';
+import type { Cookie, CookieAttributes } from './main';
+import type { CookieSchema } from './schema';
+
+export type CookieDefinitionOptions<T> = {
+    schema?: CookieSchema<T>;
+    default: T | (() => T);
+    attributes?: CookieAttributes;
+    ttl?: number | null;
+    category?: CookieConsentCategory;
+    sliding?: boolean;
+};
+
+export class CookieDefinition<T> {
+    /**
+     * Cookie instance used to read and write the value.
+     *
+     * @type { Cookie }
+     */
+    #cookie: Cookie;
+
+    /**
+     * Name of the key.
+     *
+     * @type { string }
+     */
+    #key: string;
+
+    /**
+     * Definition configuration options.
+     *
+     * @type { CookieDefinitionOptions<T> }
+     */
+    #options: CookieDefinitionOptions<T>;
+
+    /**
+     * Create a new Cookie Definition instance.
+     *
+     * @param { Cookie } cookie Cookie instance used to read and write the value.
+     * @param { string } key Name of the key.
+     * @param { CookieDefinitionOptions<T> } options Definition configuration options.
+     */
+    constructor(cookie: Cookie, key: string, options: CookieDefinitionOptions<T>) {
+        this.#cookie = cookie;
+        this.#key = key;
+        this.#options = options;
+    }
+
+    /**
+     * Get the name of the key.
+     *
+     * @returns { string }
+     */
+    get key(): string {
+        return this.#key;
+    }
+
+    /**
+     * Get the validated value, or the default if the key is missing or the value does not match the schema.
+     *
+     * Sliding keys are re-issued with the defined TTL and attributes, at most once per throttle interval.
+     *
+     * @returns { T }
+     */
+    get(): T {
+        const missing: symbol = Symbol();
+        const value: any = this.#cookie.get(this.#key, missing);
+
+        if (value === missing) {
+            return this.#default();
+        }
+
+        let parsed: T;
+
+        try {
+            parsed = this.#parse(value);
+        } catch {
+            return this.#default();
+        }
+
+        if (this.#options.sliding) {
+            this.#cookie.renew(this.#key, this.#attributes());
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Validate the value and set it to the Cookie.
+     *
+     * @param { T } value Value you want to give the key.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the defined ones.
+     *
+     * @returns { string }
+     */
+    set(value: T, attributes: CookieAttributes = {}): string {
+        return this.#cookie.set(this.#key, this.#parse(value), { ...this.#attributes(), ...attributes });
+    }
+
+    /**
+     * Removes the key from the Cookie.
+     */
+    remove(): void {
+        const { path, domain } = this.#attributes();
+
+        this.#cookie.remove(this.#key, { ...(path === undefined ? {} : { path }), ...(domain === undefined ? {} : { domain }) });
+    }
+
+    /**
+     * Updates the item expiration time.
+     *
+     * @param { number | null } ttl Item validity period in seconds, defaults to the defined one.
+     */
+    touch(ttl: number | null = null): void {
+        const { ttl: defined = null, ...attributes } = this.#attributes();
+        const missing: symbol = Symbol();
+
+        if (this.#cookie.get(this.#key, missing) === missing) {
+            return;
+        }
+
+        this.#cookie.set(this.#key, this.get(), { ...attributes, ttl: ttl ?? defined });
+    }
+
+    /**
+     * Validate the value against the schema, if one is defined.
+     *
+     * @param { * } value Value to validate.
+     *
+     * @returns { T }
+     */
+    #parse(value: unknown): T {
+        return this.#options.schema === undefined ? value as T : this.#options.schema.parse(value);
+    }
+
+    /**
+     * Get the default value.
+     *
+     * @returns { T }
+     */
+    #default(): T {
+        const fallback: T | (() => T) = this.#options.default;
+
+        return fallback instanceof Function ? fallback() : fallback;
+    }
+
+    /**
+     * Get the defined cookie attributes.
+     *
+     * @returns { CookieAttributes }
+     */
+    #attributes(): CookieAttributes {
+        const { attributes = {}, ttl, category, sliding } = this.#options;
+
+        return {
+            ...(ttl === undefined ? {} : { ttl }),
+            ...(category === undefined ? {} : { category }),
+            ...(sliding === undefined ? {} : { sliding }),
+            ...attributes,
+        };
+    }
+}
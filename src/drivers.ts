@@ -0,0 +1,177 @@
+export interface CookieDriver {
+    /**
+     * Whether the cookies are serialized for the server (e.g. as "Set-Cookie" headers), allowing server-only attributes.
+     *
+     * @type { boolean | undefined }
+     */
+    readonly server?: boolean;
+
+    /**
+     * Get the cookie string (e.g. "key1=value1; key2=value2").
+     *
+     * @returns { string }
+     */
+    get(): string;
+
+    /**
+     * Write the serialized cookie (e.g. "key=value; path=/; Secure").
+     *
+     * @param { string } cookie Serialized cookie string.
+     */
+    set(cookie: string): void;
+}
+
+type StoredCookie = {
+    key: string;
+    value: string | null;
+    expires: number | null;
+    path: string;
+    domain: string;
+};
+
+export class DocumentCookieDriver implements CookieDriver {
+    /**
+     * Get the cookie string from the document.
+     *
+     * @returns { string }
+     */
+    get(): string {
+        return document.cookie;
+    }
+
+    /**
+     * Write the serialized cookie to the document.
+     *
+     * @param { string } cookie Serialized cookie string.
+     */
+    set(cookie: string): void {
+        document.cookie = cookie;
+    }
+}
+
+export class MemoryCookieDriver implements CookieDriver {
+    /**
+     * Whether the cookies are serialized for the server, allowing server-only attributes.
+     *
+     * @type { boolean }
+     */
+    readonly server: boolean = true;
+
+    /**
+     * List of all stored cookies.
+     *
+     * @type { StoredCookie[] }
+     */
+    #cookies: StoredCookie[] = [];
+
+    /**
+     * Get the cookie string from memory.
+     *
+     * @returns { string }
+     */
+    get(): string {
+        this.#cookies = this.#cookies.filter((cookie: StoredCookie): boolean => cookie.expires === null || cookie.expires > Date.now());
+
+        return this.#cookies
+            .map((cookie: StoredCookie): string => cookie.value === null ? cookie.key : `${cookie.key}=${cookie.value}`)
+            .join('; ');
+    }
+
+    /**
+     * Write the serialized cookie to memory.
+     *
+     * @param { string } cookie Serialized cookie string.
+     */
+    set(cookie: string): void {
+        const [pair = '', ...attributes] = cookie.split(';').map((part: string): string => part.trim());
+
+        if (pair === '') {
+            return;
+        }
+
+        const index: number = pair.indexOf('=');
+        const data: StoredCookie = {
+            key    : index === -1 ? pair : pair.slice(0, index),
+            value  : index === -1 ? null : pair.slice(index + 1),
+            expires: null,
+            path   : '/',
+            domain : '',
+        };
+
+        attributes.forEach((attribute: string): void => {
+            const [name = '', value = ''] = attribute.split('=');
+
+            switch (name.toLowerCase()) {
+                case 'expires':
+                    data.expires ??= Date.parse(value);
+                    break;
+                case 'max-age':
+                    data.expires = Date.now() + Number(value) * 1000;
+                    break;
+                case 'path':
+                    data.path = value;
+                    break;
+                case 'domain':
+                    data.domain = value.replace(/^\./, '');
+                    break;
+            }
+        });
+
+        const existing: number = this.#cookies.findIndex((cookie: StoredCookie): boolean => {
+            return cookie.key === data.key && cookie.path === data.path && cookie.domain === data.domain;
+        });
+
+        const expired: boolean = data.expires !== null && data.expires <= Date.now();
+
+        if (existing >= 0 && expired) {
+            this.#cookies.splice(existing, 1);
+        } else if (existing >= 0) {
+            this.#cookies[existing] = data;
+        } else if (!expired) {
+            this.#cookies.push(data);
+        }
+    }
+}
+
+export class HeaderCookieDriver extends MemoryCookieDriver {
+    /**
+     * List of serialized cookies written since the driver was created.
+     *
+     * @type { string[] }
+     */
+    #headers: string[] = [];
+
+    /**
+     * Create a new Header Cookie Driver instance.
+     *
+     * @param { string } header Value of the incoming "Cookie" request header.
+     */
+    constructor(header: string = '') {
+        super();
+
+        header
+            .split(';')
+            .map((cookie: string): string => cookie.trim())
+            .forEach((cookie: string): void => super.set(cookie));
+    }
+
+    /**
+     * Write the serialized cookie and record it as a "Set-Cookie" header.
+     *
+     * @param { string } cookie Serialized cookie string.
+     */
+    set(cookie: string): void {
+        super.set(cookie);
+
+        this.#headers.push(cookie);
+    }
+
+    /**
+     * Get the "Set-Cookie" header values for all written cookies.
+     *
+     * @returns { string[] }
+     */
+    headers(): string[] {
+        return [...this.#headers];
+    }
+}
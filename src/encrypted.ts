@@ -0,0 +1,124 @@
+import type { Cookie, CookieAttributes, CookieRemoveAttributes } from './main';
+import { fromBase64Url, subtle, toBase64Url, webcrypto } from './crypto';
+import { parse, stringify } from './serializer';
+
+export type EncryptionKey = {
+    version: string;
+    key: CryptoKey;
+};
+
+export class EncryptedCookie {
+    /**
+     * Cookie instance used to read and write encrypted values.
+     *
+     * @type { Cookie }
+     */
+    #cookie: Cookie;
+
+    /**
+     * Versioned keys used to encrypt and decrypt values, the first one being used for encryption.
+     *
+     * @type { EncryptionKey[] }
+     */
+    #keys: EncryptionKey[];
+
+    /**
+     * Create a new Encrypted Cookie instance.
+     *
+     * @param { Cookie } cookie Cookie instance used to read and write encrypted values.
+     * @param { CryptoKey | EncryptionKey[] } keys AES-GCM key or list of versioned keys, ordered from the newest to the oldest.
+     */
+    constructor(cookie: Cookie, keys: CryptoKey | EncryptionKey[]) {
+        this.#cookie = cookie;
+        this.#keys = Array.isArray(keys) ? keys : [{ version: '1', key: keys }];
+
+        if (this.#keys.length === 0) {
+            throw new Error('At least one key must be provided to encrypt cookies.');
+        }
+
+        if (this.#keys.some((key: EncryptionKey): boolean => key.version === '' || key.version.includes('.'))) {
+            throw new Error('The key version must be a non-empty string without the "." character.');
+        }
+    }
+
+    /**
+     * Encrypt the value and set the key to the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { * } value Value you want to give the key you are creating.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { Promise<string> }
+     */
+    async set(key: string, value: any, attributes: CookieAttributes = {}): Promise<string> {
+        const { version, key: secret } = this.#keys[0] as EncryptionKey;
+        const iv: Uint8Array = webcrypto().getRandomValues(new Uint8Array(12));
+        const data: Uint8Array = new TextEncoder().encode(stringify(value));
+        const ciphertext: ArrayBuffer = await subtle().encrypt(this.#algorithm(key, iv), secret, data);
+
+        return this.#cookie.set(key, `${version}.${toBase64Url(iv)}.${toBase64Url(ciphertext)}`, attributes);
+    }
+
+    /**
+     * Get the key from the Cookie, returning the fallback if the value cannot be decrypted.
+     *
+     * @param { string } key String containing the name of the key you want to get.
+     * @param { * } fallback Value or function returning the value used if the key is missing or cannot be decrypted.
+     *
+     * @returns { Promise<*> }
+     */
+    async get(key: string, fallback: any = null): Promise<any> {
+        const cookie: any = this.#cookie.get(key);
+        const [version, iv, ciphertext] = typeof cookie === 'string' ? cookie.split('.') : [];
+        const secret: CryptoKey | undefined = this.#keys.find((key: EncryptionKey): boolean => key.version === version)?.key;
+
+        if (secret === undefined || iv === undefined || ciphertext === undefined) {
+            return fallback instanceof Function ? fallback() : fallback ?? null;
+        }
+
+        try {
+            const data: ArrayBuffer = await subtle().decrypt(this.#algorithm(key, fromBase64Url(iv)), secret, fromBase64Url(ciphertext));
+
+            return parse(new TextDecoder().decode(data));
+        } catch {
+            return fallback instanceof Function ? fallback() : fallback ?? null;
+        }
+    }
+
+    /**
+     * Determine if the key exists in the Cookie and can be decrypted.
+     *
+     * @param { string } key String containing the name of the key you want to check against.
+     *
+     * @returns { Promise<boolean> }
+     */
+    async has(key: string): Promise<boolean> {
+        const missing: symbol = Symbol();
+
+        return await this.get(key, missing) !== missing;
+    }
+
+    /**
+     * Removes a key from the cookie.
+     *
+     * @param { string } key The name of the cookie key to remove.
+     * @param { CookieRemoveAttributes } attributes Attributes the cookie was set with.
+     *
+     * @returns { boolean } Whether the key is gone.
+     */
+    remove(key: string, attributes: CookieRemoveAttributes = {}): boolean {
+        return this.#cookie.remove(key, attributes);
+    }
+
+    /**
+     * Get the AES-GCM algorithm parameters, binding the ciphertext to the name of the key.
+     *
+     * @param { string } key Name of the key.
+     * @param { Uint8Array } iv Initialization vector.
+     *
+     * @returns { AesGcmParams }
+     */
+    #algorithm(key: string, iv: Uint8Array): AesGcmParams {
+        return { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(key) };
+    }
+}
@@ -0,0 +1,358 @@
+import type { CookieStore } from './async';
+import { CookieDriver, DocumentCookieDriver } from './drivers';
+
+export type CookieChangeCause = 'set' | 'remove' | 'touch' | 'external';
+
+export type CookieChangeEvent = {
+    key: string;
+    oldValue: any;
+    newValue: any;
+    cause: CookieChangeCause;
+};
+
+export type CookieChange = {
+    name: string;
+    oldValue: string | null;
+    newValue: string | null;
+    cause: CookieChangeCause;
+};
+
+type CookieChannel = {
+    post(message: CookieSyncMessage): void;
+    close(): void;
+};
+
+type CookieSyncMessage = {
+    source: string;
+    change: CookieChange;
+};
+
+export class CookieEvents {
+    /**
+     * Event hubs, one per driver.
+     *
+     * @type { WeakMap<CookieDriver, CookieEvents> }
+     */
+    static #hubs: WeakMap<CookieDriver, CookieEvents> = new WeakMap;
+
+    /**
+     * Interval in milliseconds used to poll the driver for external changes.
+     *
+     * @type { number }
+     */
+    static interval: number = 1000;
+
+    /**
+     * Driver whose changes are observed.
+     *
+     * @type { CookieDriver }
+     */
+    #driver: CookieDriver;
+
+    /**
+     * List of change listeners.
+     *
+     * @type { Set<(change: CookieChange) => void> }
+     */
+    #listeners: Set<(change: CookieChange) => void> = new Set;
+
+    /**
+     * Raw cookie values as of the last observed change.
+     *
+     * @type { Map<string, string | null> }
+     */
+    #snapshot: Map<string, string | null> = new Map;
+
+    /**
+     * Stops observing external changes.
+     *
+     * @type { (() => void) | null }
+     */
+    #stop: (() => void) | null = null;
+
+    /**
+     * Channel used to synchronize the changes made through the API with other tabs, or null if not synchronizing.
+     *
+     * @type { CookieChannel | null }
+     */
+    #channel: CookieChannel | null = null;
+
+    /**
+     * Identifier of the event hub, used to ignore its own messages.
+     *
+     * @type { string }
+     */
+    #source: string = Math.random().toString(36).slice(2);
+
+    /**
+     * Create a new Cookie Events instance.
+     *
+     * @param { CookieDriver } driver Driver whose changes are observed.
+     */
+    constructor(driver: CookieDriver) {
+        this.#driver = driver;
+    }
+
+    /**
+     * Get the event hub of the driver.
+     *
+     * @param { CookieDriver } driver Driver whose changes are observed.
+     *
+     * @returns { CookieEvents }
+     */
+    static for(driver: CookieDriver): CookieEvents {
+        if (!this.#hubs.has(driver)) {
+            this.#hubs.set(driver, new CookieEvents(driver));
+        }
+
+        return this.#hubs.get(driver) as CookieEvents;
+    }
+
+    /**
+     * Determine if there are any listeners.
+     *
+     * @returns { boolean }
+     */
+    get listening(): boolean {
+        return this.#listeners.size > 0;
+    }
+
+    /**
+     * Determine if the changes are synchronized with other tabs.
+     *
+     * @returns { boolean }
+     */
+    get syncing(): boolean {
+        return this.#channel !== null;
+    }
+
+    /**
+     * Register the change listener, observing external changes while there are any listeners.
+     *
+     * @param { (change: CookieChange) => void } listener Change listener.
+     *
+     * @returns { () => void } Function removing the listener.
+     */
+    subscribe(listener: (change: CookieChange) => void): () => void {
+        if (!this.listening) {
+            this.#snapshot = this.#read();
+            this.#stop = this.#observe();
+        }
+
+        this.#listeners.add(listener);
+
+        return (): void => {
+            this.#listeners.delete(listener);
+
+            if (!this.listening && this.#stop !== null) {
+                this.#stop();
+                this.#stop = null;
+            }
+        };
+    }
+
+    /**
+     * Notify the listeners about the change made through the API.
+     *
+     * @param { CookieChange } change Description of the change.
+     */
+    emit(change: CookieChange): void {
+        this.#snapshot = this.#read();
+
+        this.#listeners.forEach((listener: (change: CookieChange) => void): void => listener(change));
+
+        this.#channel?.post({ source: this.#source, change });
+    }
+
+    /**
+     * Observe the write made through the API without notifying the listeners, as it did not change the value.
+     */
+    refresh(): void {
+        this.#snapshot = this.#read();
+    }
+
+    /**
+     * Broadcast the changes made through the API to other tabs, and notify the listeners about the changes made there.
+     *
+     * Uses the BroadcastChannel API where available, falling back to signalling through the storage event otherwise.
+     *
+     * @param { string } name Name of the channel, shared by all tabs.
+     *
+     * @returns { () => void } Function stopping the synchronization.
+     */
+    sync(name: string): () => void {
+        this.#channel?.close();
+        this.#channel = this.#open(name, (message: unknown): void => this.#receive(message));
+
+        const channel: CookieChannel = this.#channel;
+
+        return (): void => {
+            channel.close();
+
+            if (this.#channel === channel) {
+                this.#channel = null;
+            }
+        };
+    }
+
+    /**
+     * Detect changes made outside the API since the last observed change.
+     */
+    check(): void {
+        const previous: Map<string, string | null> = this.#snapshot;
+        const current: Map<string, string | null> = this.#read();
+        const names: Set<string> = new Set([...previous.keys(), ...current.keys()]);
+
+        this.#snapshot = current;
+
+        names.forEach((name: string): void => {
+            const oldValue: string | null = previous.get(name) ?? null;
+            const newValue: string | null = current.get(name) ?? null;
+
+            if (oldValue === newValue && previous.has(name) === current.has(name)) {
+                return;
+            }
+
+            this.#listeners.forEach((listener: (change: CookieChange) => void): void => {
+                listener({ name, oldValue, newValue, cause: 'external' });
+            });
+        });
+    }
+
+    /**
+     * Notify the listeners about the change made in another tab, unless it was already detected.
+     *
+     * Touches do not change the value, so they can not be detected, and are always passed on.
+     *
+     * @param { * } message Message received from another tab.
+     */
+    #receive(message: unknown): void {
+        if (!this.#valid(message)) {
+            return;
+        }
+
+        const { source, change } = message;
+
+        if (source === this.#source) {
+            return;
+        }
+
+        if (change.cause !== 'touch' && (this.#snapshot.get(change.name) ?? null) === change.newValue && this.#snapshot.has(change.name) === (change.newValue !== null)) {
+            return;
+        }
+
+        this.#snapshot = this.#read();
+
+        this.#listeners.forEach((listener: (change: CookieChange) => void): void => listener(change));
+    }
+
+    /**
+     * Determine if the message received from another tab was sent by an event hub, ignoring the ones of other scripts.
+     *
+     * @param { * } message Message received from another tab.
+     *
+     * @returns { boolean }
+     */
+    #valid(message: unknown): message is CookieSyncMessage {
+        const { source, change } = (typeof message === 'object' && message !== null ? message : {}) as Partial<CookieSyncMessage>;
+
+        return typeof source === 'string'
+            && typeof change === 'object'
+            && change !== null
+            && typeof change.name === 'string'
+            && ['set', 'remove', 'touch', 'external'].includes(change.cause);
+    }
+
+    /**
+     * Open the channel, using the BroadcastChannel API where available, falling back to the storage event otherwise.
+     *
+     * @param { string } name Name of the channel.
+     * @param { (message: unknown) => void } receive Function called with the messages from other tabs.
+     *
+     * @returns { CookieChannel }
+     */
+    #open(name: string, receive: (message: unknown) => void): CookieChannel {
+        if (typeof BroadcastChannel !== 'undefined') {
+            const channel: BroadcastChannel = new BroadcastChannel(name);
+
+            channel.onmessage = (event: MessageEvent<unknown>): void => receive(event.data);
+
+            return {
+                post : (message: CookieSyncMessage): void => channel.postMessage(message),
+                close: (): void => channel.close(),
+            };
+        }
+
+        const storage: Storage | undefined = (globalThis as { localStorage?: Storage }).localStorage;
+
+        if (storage === undefined || typeof globalThis.addEventListener !== 'function') {
+            throw new Error('Neither the BroadcastChannel API nor the localStorage is available in the current environment.');
+        }
+
+        const key: string = `cookie-sync:${name}`;
+        const listener: (event: StorageEvent) => void = (event: StorageEvent): void => {
+            if (event.key !== key || event.newValue === null) {
+                return;
+            }
+
+            try {
+                receive(JSON.parse(event.newValue));
+            } catch {
+                return;
+            }
+        };
+
+        globalThis.addEventListener('storage', listener);
+
+        return {
+            post : (message: CookieSyncMessage): void => {
+                storage.setItem(key, JSON.stringify({ ...message, nonce: Math.random() }));
+                storage.removeItem(key);
+            },
+            close: (): void => globalThis.removeEventListener('storage', listener),
+        };
+    }
+
+    /**
+     * Start observing external changes, using the CookieStore change event where available.
+     *
+     * @returns { () => void } Function stopping the observation.
+     */
+    #observe(): () => void {
+        const check: () => void = (): void => this.check();
+        const store: CookieStore | undefined = (globalThis as { cookieStore?: CookieStore }).cookieStore;
+
+        if (store !== undefined && this.#driver instanceof DocumentCookieDriver) {
+            store.addEventListener('change', check);
+
+            return (): void => store.removeEventListener('change', check);
+        }
+
+        const timer: ReturnType<typeof setInterval> = setInterval(check, CookieEvents.interval);
+
+        return (): void => clearInterval(timer);
+    }
+
+    /**
+     * Read the raw cookie values from the driver.
+     *
+     * @returns { Map<string, string | null> }
+     */
+    #read(): Map<string, string | null> {
+        const cookies: Map<string, string | null> = new Map;
+
+        this.#driver.get()
+            .split('; ')
+            .filter((cookie: string): boolean => cookie !== '')
+            .forEach((cookie: string): void => {
+                const index: number = cookie.indexOf('=');
+                const name: string = index === -1 ? cookie : cookie.slice(0, index);
+
+                if (!cookies.has(name)) {
+                    cookies.set(name, index === -1 ? null : cookie.slice(index + 1));
+                }
+            });
+
+        return cookies;
+    }
+}
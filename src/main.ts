@@ -1,42 +1,2078 @@
+import { AsyncCookie } from './async';
+import { CookieConsent, CookieConsentCategory, CookieConsentOptions } from './consent';
+import { CookieConverter, decode, DefaultCookieConverter, encode } from './converter';
+import { CookieDefinition, CookieDefinitionOptions } from './definition';
+import { CookieDriver, DocumentCookieDriver } from './drivers';
+import { EncryptedCookie, EncryptionKey } from './encrypted';
+import { CookieChange, CookieChangeEvent, CookieEvents } from './events';
+import { CookieSerializer, DefaultCookieSerializer } from './serializer';
+import { CookieValueStore } from './store';
+import { SignedCookie } from './signed';
+
+export { AsyncCookie } from './async';
+export type { AsyncCookieItem, AsyncCookieOptions, CookieStore, CookieStoreItem } from './async';
+export { CookieConsent } from './consent';
+export type { CookieConsentCategory, CookieConsentOptions } from './consent';
+export { DefaultCookieConverter } from './converter';
+export type { CookieConverter } from './converter';
+export { CookieDefinition } from './definition';
+export type { CookieDefinitionOptions } from './definition';
+export { DocumentCookieDriver, MemoryCookieDriver, HeaderCookieDriver } from './drivers';
+export type { CookieDriver } from './drivers';
+export { EncryptedCookie } from './encrypted';
+export type { EncryptionKey } from './encrypted';
+export { CookieEvents } from './events';
+export type { CookieChangeCause, CookieChangeEvent } from './events';
+export { schema } from './schema';
+export type { CookieSchema, CookieSchemaType } from './schema';
+export { DefaultCookieSerializer, TaggedCookieSerializer } from './serializer';
+export type { CookieCodec, CookieSerializer } from './serializer';
+export { SignedCookie } from './signed';
+export type { SignedCookieVerification } from './signed';
+export { CookieValueStore } from './store';
+
 export type CookieAttributes = {
     ttl?: number | null;
     expires?: Date | string;
     path?: string;
     domain?: string;
+    maxAge?: number;
     sameSite?: 'Strict' | 'Lax' | 'None';
     secure?: boolean;
+    partitioned?: boolean;
+    priority?: 'Low' | 'Medium' | 'High';
+    httpOnly?: boolean;
+    category?: CookieConsentCategory;
+    sliding?: boolean;
+};
+
+export type CookieQuota = {
+    policy: 'throw' | 'warn' | 'evict-oldest' | 'ignore';
+    size: number;
+    count: number;
+};
+
+export type CookieScopedAttributes = Pick<CookieAttributes, 'path' | 'domain' | 'sameSite' | 'secure' | 'partitioned' | 'priority' | 'httpOnly'>;
+
+export type CookieRemoveAttributes = CookieScopedAttributes & {
+    everywhere?: boolean;
+};
+
+export type CookieMigration = {
+    version: number;
+    steps: Record<number, (cookie: Cookie) => void>;
+    key?: string;
+    ttl?: number | null;
+};
+
+type CookieOperation = {
+    key: string;
+    value: any;
+    attributes: CookieAttributes | CookieRemoveAttributes;
+    remove: boolean;
+};
+
+export type CookieOptions = CookieScopedAttributes & {
+    ttl?: number | null;
+    driver?: CookieDriver;
+    converter?: CookieConverter;
+    serializer?: CookieSerializer;
+    namespace?: string;
+    chunked?: boolean | number;
+    metadata?: boolean;
+    quota?: Partial<CookieQuota>;
+    strict?: boolean;
+    consent?: Partial<CookieConsentOptions>;
+    throttle?: number;
+};
+
+type CookieRenewal = {
+    ttl: number;
+    renewed: number;
 };
 
-export class Cookie {
+export class Cookie {
+    /**
+     * Default Cookie instance used by the static methods.
+     *
+     * @type { Cookie }
+     */
+    static #instance: Cookie = new Cookie;
+
+    /**
+     * Attributes of the cookies written through the API, one registry per driver.
+     *
+     * @type { WeakMap<CookieDriver, Map<string, CookieAttributes>> }
+     */
+    static #registries: WeakMap<CookieDriver, Map<string, CookieAttributes>> = new WeakMap;
+
+    /**
+     * Original TTL and last renewal time of the sliding cookies written through the API, one list per driver.
+     *
+     * @type { WeakMap<CookieDriver, Map<string, CookieRenewal>> }
+     */
+    static #sliding: WeakMap<CookieDriver, Map<string, CookieRenewal>> = new WeakMap;
+
+    /**
+     * Default item validity period in seconds.
+     *
+     * @type { number | null }
+     */
+    #ttl: number | null;
+
+    /**
+     * Driver used to read and write cookies.
+     *
+     * @type { CookieDriver }
+     */
+    #driver: CookieDriver;
+
+    /**
+     * Converter used to encode and decode cookie values.
+     *
+     * @type { CookieConverter }
+     */
+    #converter: CookieConverter;
+
+    /**
+     * Serializer used to convert values to and from their stored string representation.
+     *
+     * @type { CookieSerializer }
+     */
+    #serializer: CookieSerializer;
+
+    /**
+     * Default attributes applied to every written cookie.
+     *
+     * @type { CookieScopedAttributes }
+     */
+    #attributes: CookieScopedAttributes;
+
+    /**
+     * Namespace prefixed to every key.
+     *
+     * @type { string | null }
+     */
+    #namespace: string | null;
+
+    /**
+     * Maximum length of a cookie value before it is split into chunks, or null if chunking is disabled.
+     *
+     * @type { number | null }
+     */
+    #chunkSize: number | null;
+
+    /**
+     * Whether the expiry and creation time are stored alongside the value.
+     *
+     * @type { boolean }
+     */
+    #metadata: boolean;
+
+    /**
+     * Size limits enforced before writing cookies.
+     *
+     * @type { CookieQuota }
+     */
+    #quota: CookieQuota;
+
+    /**
+     * Whether cookies violating the name prefix rules are rejected instead of fixed.
+     *
+     * @type { boolean }
+     */
+    #strict: boolean;
+
+    /**
+     * Consent configuration options.
+     *
+     * @type { CookieConsentOptions }
+     */
+    #consent: CookieConsentOptions;
+
+    /**
+     * Minimum number of seconds between the renewals of the sliding cookies.
+     *
+     * @type { number }
+     */
+    #throttle: number;
+
+    /**
+     * Writes and removals staged by the running batch, or null if no batch is running.
+     *
+     * @type { CookieOperation[] | null }
+     */
+    #staged: CookieOperation[] | null = null;
+
+    /**
+     * Whether the running write renews a sliding cookie, which does not change its value.
+     *
+     * @type { boolean }
+     */
+    #renewing: boolean = false;
+
+    /**
+     * Whether the running write updates the expiration time of the key, which does not change its value.
+     *
+     * @type { boolean }
+     */
+    #touching: boolean = false;
+
+    /**
+     * Create a new Cookie instance.
+     *
+     * @param { CookieOptions } options Cookie instance configuration options.
+     */
+    constructor(options: CookieOptions = {}) {
+        const { ttl = null, driver = new DocumentCookieDriver, converter = new DefaultCookieConverter, serializer = new DefaultCookieSerializer, namespace = null, chunked = false, metadata = false, quota = {}, strict = false, consent = {}, throttle = 60, ...attributes } = options;
+
+        this.#ttl = ttl;
+        this.#driver = driver;
+        this.#converter = converter;
+        this.#serializer = serializer;
+        this.#attributes = attributes;
+        this.#namespace = namespace;
+        this.#chunkSize = chunked === true ? 4000 : chunked || null;
+        this.#metadata = metadata;
+        this.#quota = { policy: 'warn', size: 4096, count: 180, ...quota };
+        this.#strict = strict;
+        this.#consent = { key: 'cookie_consent', queue: false, ttl: 31536000, ...consent };
+        this.#throttle = throttle;
+    }
+
+    /**
+     * Create a new Cookie instance.
+     *
+     * @param { CookieOptions } options Cookie instance configuration options.
+     *
+     * @returns { Cookie }
+     */
+    static create(options: CookieOptions = {}): Cookie {
+        return new Cookie(options);
+    }
+
+    /**
+     * Set the default item validity period in seconds.
+     *
+     * @param { number | null } value
+     */
+    static ttl(value: number | null): void {
+        this.#instance.ttl(value);
+    }
+
+    /**
+     * Set the driver used to read and write cookies.
+     *
+     * @param { CookieDriver } driver Cookie storage driver.
+     */
+    static driver(driver: CookieDriver): void {
+        this.#instance.driver(driver);
+    }
+
+    /**
+     * Set the converter used to encode and decode cookie values.
+     *
+     * @param { CookieConverter } converter Cookie value converter.
+     */
+    static converter(converter: CookieConverter): void {
+        this.#instance.converter(converter);
+    }
+
+    /**
+     * Set the serializer used to convert values to and from their stored string representation.
+     *
+     * @param { CookieSerializer } serializer Cookie value serializer.
+     */
+    static serializer(serializer: CookieSerializer): void {
+        this.#instance.serializer(serializer);
+    }
+
+    /**
+     * Create a new Cookie instance with the given default attributes merged into the current ones.
+     *
+     * @param { CookieScopedAttributes } attributes Default cookie attributes.
+     *
+     * @returns { Cookie }
+     */
+    static withAttributes(attributes: CookieScopedAttributes): Cookie {
+        return this.#instance.withAttributes(attributes);
+    }
+
+    /**
+     * Create a new Cookie instance using the given converter.
+     *
+     * @param { CookieConverter } converter Cookie value converter.
+     *
+     * @returns { Cookie }
+     */
+    static withConverter(converter: CookieConverter): Cookie {
+        return this.#instance.withConverter(converter);
+    }
+
+    /**
+     * Create a new Cookie instance using the given serializer.
+     *
+     * @param { CookieSerializer } serializer Cookie value serializer.
+     *
+     * @returns { Cookie }
+     */
+    static withSerializer(serializer: CookieSerializer): Cookie {
+        return this.#instance.withSerializer(serializer);
+    }
+
+    /**
+     * Create a new Cookie instance scoped to the given namespace.
+     *
+     * @param { string } name Name of the namespace.
+     *
+     * @returns { Cookie }
+     */
+    static namespace(name: string): Cookie {
+        return this.#instance.namespace(name);
+    }
+
+    /**
+     * Create a new Signed Cookie instance using the given secrets.
+     *
+     * @param { string | string[] } secrets Secret or list of secrets, ordered from the newest to the oldest.
+     *
+     * @returns { SignedCookie }
+     */
+    static signed(secrets: string | string[]): SignedCookie {
+        return this.#instance.signed(secrets);
+    }
+
+    /**
+     * Create a new Encrypted Cookie instance using the given keys.
+     *
+     * @param { CryptoKey | EncryptionKey[] } keys AES-GCM key or list of versioned keys, ordered from the newest to the oldest.
+     *
+     * @returns { EncryptedCookie }
+     */
+    static encrypted(keys: CryptoKey | EncryptionKey[]): EncryptedCookie {
+        return this.#instance.encrypted(keys);
+    }
+
+    /**
+     * Define a typed cookie, validated against the given schema.
+     *
+     * @param { string } key String containing the name of the key you want to define.
+     * @param { CookieDefinitionOptions<T> } options Definition configuration options.
+     *
+     * @returns { CookieDefinition<T> }
+     */
+    static define<T>(key: string, options: CookieDefinitionOptions<T>): CookieDefinition<T> {
+        return this.#instance.define(key, options);
+    }
+
+    /**
+     * Create a store bound to the key, compatible with the Svelte store contract and React's useSyncExternalStore hook.
+     *
+     * @param { string } key String containing the name of the key you want to bind.
+     * @param { T | (() => T) } fallback The fallback value in case the key does not exist.
+     *
+     * @returns { CookieValueStore<T> }
+     */
+    static store<T = any>(key: string, fallback: T | (() => T) = null as T): CookieValueStore<T> {
+        return this.#instance.store(key, fallback);
+    }
+
+    /**
+     * Get the consent manager used to grant, revoke and query consent to cookie categories.
+     *
+     * @returns { CookieConsent }
+     */
+    static get consent(): CookieConsent {
+        return this.#instance.consent;
+    }
+
+    /**
+     * Register a listener called whenever any key in the Cookie changes.
+     *
+     * @param { 'change' } event Name of the event.
+     * @param { (event: CookieChangeEvent) => void } handler Function called with the change details.
+     *
+     * @returns { () => void } Function removing the listener.
+     */
+    static on(event: 'change', handler: (event: CookieChangeEvent) => void): () => void {
+        return this.#instance.on(event, handler);
+    }
+
+    /**
+     * Register a listener called whenever the key in the Cookie changes.
+     *
+     * @param { string } key String containing the name of the key you want to watch.
+     * @param { (event: CookieChangeEvent) => void } handler Function called with the change details.
+     *
+     * @returns { () => void } Function removing the listener.
+     */
+    static watch(key: string, handler: (event: CookieChangeEvent) => void): () => void {
+        return this.#instance.watch(key, handler);
+    }
+
+    /**
+     * Synchronize the changes made through the API with other tabs, notifying the change listeners there.
+     *
+     * @param { string } channel Name of the channel, shared by all tabs.
+     *
+     * @returns { () => void } Function stopping the synchronization.
+     */
+    static sync(channel: string = 'cookie'): () => void {
+        return this.#instance.sync(channel);
+    }
+
+    /**
+     * Stage the writes and removals made by the callback, and apply them all at once.
+     *
+     * @param { (cookie: Cookie) => void } callback Function making the writes and removals.
+     *
+     * @returns { CookieChangeEvent[] } List of applied changes.
+     */
+    static batch(callback: (cookie: Cookie) => void): CookieChangeEvent[] {
+        return this.#instance.batch(callback);
+    }
+
+    /**
+     * Set the key to the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { * } value Value you want to give the key you are creating.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { string }
+     */
+    static set(key: string, value: any, attributes: CookieAttributes = {}): string {
+        return this.#instance.set(key, value, attributes);
+    }
+
+    /**
+     * Get the key from the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to get.
+     *
+     * @returns { * }
+     */
+    static get(key: string, fallback: any = null): any {
+        return this.#instance.get(key, fallback);
+    }
+
+    /**
+     * Get all values of the key set on different paths and domains, in the order listed by the browser.
+     *
+     * @param { string } key String containing the name of the key you want to get.
+     *
+     * @returns { *[] }
+     */
+    static getAll(key: string): any[] {
+        return this.#instance.getAll(key);
+    }
+
+    /**
+     * Get the key from the Cookie, or execute the given callback and store the result.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { Function } callback Function you want to execute.
+     * @param { object } attributes
+     *
+     * @return { any }
+     */
+    static remember(key: string, callback: Function, attributes: CookieAttributes = {}): any {
+        return this.#instance.remember(key, callback, attributes);
+    }
+
+    /**
+     * Return all items stored in the Cookie.
+     *
+     * @return { {key: string, value: any}[] }
+     */
+    static all(): { key: string, value: any }[] {
+        return this.#instance.all();
+    }
+
+    /**
+     * Return the keys set on multiple paths or domains, along with all of their values.
+     *
+     * @return { {key: string, values: any[]}[] }
+     */
+    static duplicates(): { key: string, values: any[] }[] {
+        return this.#instance.duplicates();
+    }
+
+    /**
+     * Removes a key from the cookie.
+     *
+     * @param { string } key The name of the cookie key to remove.
+     * @param { CookieRemoveAttributes } attributes Attributes the cookie was set with.
+     *
+     * @returns { boolean } Whether the key is gone.
+     */
+    static remove(key: string, attributes: CookieRemoveAttributes = {}): boolean {
+        return this.#instance.remove(key, attributes);
+    }
+
+    /**
+     * Clear all keys stored in the Cookie.
+     *
+     * @param { CookieRemoveAttributes } attributes Attributes the cookies were set with.
+     *
+     * @returns { boolean } Whether all keys are gone.
+     */
+    static clear(attributes: CookieRemoveAttributes = {}): boolean {
+        return this.#instance.clear(attributes);
+    }
+
+    /**
+     * Determine if the key exists in the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to check against
+     *
+     * @return { boolean }
+     */
+    static has(key: string): boolean {
+        return this.#instance.has(key);
+    }
+
+    /**
+     * Determine if any of the keys exists in the Cookie.
+     *
+     * @param { string | string[] } keys String containing the name of the key you want to check against
+     *
+     * @return { boolean }
+     */
+    static hasAny(...keys: [string | string[]] | string[]): boolean {
+        return this.#instance.hasAny(...keys);
+    }
+
+    /**
+     * Determine if the Cookie is empty.
+     *
+     * @return { boolean }
+     */
+    static isEmpty(): boolean {
+        return this.#instance.isEmpty();
+    }
+
+    /**
+     * Determine if the Cookie is not empty.
+     *
+     * @return { boolean }
+     */
+    static isNotEmpty(): boolean {
+        return this.#instance.isNotEmpty();
+    }
+
+    /**
+     * Retrieves all keys from the Cookie.
+     *
+     * @return { string[] }
+     */
+    static keys(): string[] {
+        return this.#instance.keys();
+    }
+
+    /**
+     * Returns the total number of items in the Cookie.
+     *
+     * @return { number }
+     */
+    static count(): number {
+        return this.#instance.count();
+    }
+
+    /**
+     * Updates the item expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { number | null } ttl Item validity period in seconds.
+     * @param { object } attributes Optional cookie attributes (only `path` is allowed).
+     */
+    static touch(key: string, ttl: number | null = null, attributes: Pick<CookieAttributes, 'path'> = {}): void {
+        this.#instance.touch(key, ttl, attributes);
+    }
+
+    /**
+     * Re-issue the sliding key with its original TTL and attributes, unless it was renewed recently.
+     *
+     * @param { string } key String containing the name of the key you want to renew.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { boolean } Whether the key was renewed.
+     */
+    static renew(key: string, attributes: CookieAttributes = {}): boolean {
+        return this.#instance.renew(key, attributes);
+    }
+
+    /**
+     * Increment the numeric value of the key, keeping its attributes and expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { number } amount Amount to increment the value by.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { number }
+     */
+    static increment(key: string, amount: number = 1, attributes: CookieAttributes = {}): number {
+        return this.#instance.increment(key, amount, attributes);
+    }
+
+    /**
+     * Decrement the numeric value of the key, keeping its attributes and expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { number } amount Amount to decrement the value by.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { number }
+     */
+    static decrement(key: string, amount: number = 1, attributes: CookieAttributes = {}): number {
+        return this.#instance.decrement(key, amount, attributes);
+    }
+
+    /**
+     * Append the items to the array value of the key, keeping its attributes and expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { *[] } items Items to append.
+     *
+     * @returns { *[] }
+     */
+    static push(key: string, ...items: any[]): any[] {
+        return this.#instance.push(key, ...items);
+    }
+
+    /**
+     * Remove the items from the array value of the key, keeping its attributes and expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { *[] } items Items to remove.
+     *
+     * @returns { *[] }
+     */
+    static pull(key: string, ...items: any[]): any[] {
+        return this.#instance.pull(key, ...items);
+    }
+
+    /**
+     * Merge the properties into the object value of the key, keeping its attributes and expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { object } properties Properties to merge.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { object }
+     */
+    static merge(key: string, properties: Record<string, any>, attributes: CookieAttributes = {}): Record<string, any> {
+        return this.#instance.merge(key, properties, attributes);
+    }
+
+    /**
+     * Move the value of the key to the new key, keeping its attributes, and remove the old key.
+     *
+     * @param { string } from String containing the name of the key you want to rename.
+     * @param { string } to String containing the new name of the key.
+     *
+     * @returns { boolean } Whether the key was moved.
+     */
+    static rename(from: string, to: string): boolean {
+        return this.#instance.rename(from, to);
+    }
+
+    /**
+     * Run the migration steps newer than the stored schema version, in order, and store the new version.
+     *
+     * @param { CookieMigration } migration Target version and migration steps, keyed by the version they migrate to.
+     *
+     * @returns { number } The stored schema version.
+     */
+    static migrate(migration: CookieMigration): number {
+        return this.#instance.migrate(migration);
+    }
+
+    /**
+     * Dump the key from the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to dump.
+     */
+    static dump(key: string): void {
+        this.#instance.dump(key);
+    }
+
+    /**
+     * Returns the size in bytes of the key, or of all items in the Cookie.
+     *
+     * @param { string | null } key String containing the name of the key you want to measure.
+     *
+     * @return { number }
+     */
+    static size(key: string | null = null): number {
+        return this.#instance.size(key);
+    }
+
+    /**
+     * Get the expiry of the key, as recorded when the key was set with metadata.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { Date | null }
+     */
+    static expiresAt(key: string): Date | null {
+        return this.#instance.expiresAt(key);
+    }
+
+    /**
+     * Get the remaining validity period of the key in seconds, as recorded when the key was set with metadata.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { number | null }
+     */
+    static ttlOf(key: string): number | null {
+        return this.#instance.ttlOf(key);
+    }
+
+    /**
+     * Get the creation time of the key, as recorded when the key was set with metadata.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { Date | null }
+     */
+    static createdAt(key: string): Date | null {
+        return this.#instance.createdAt(key);
+    }
+
+    /**
+     * Determine if the key is missing or past its recorded expiry.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { boolean }
+     */
+    static isExpired(key: string): boolean {
+        return this.#instance.isExpired(key);
+    }
+
+    /**
+     * Prefix the key with "__Host-", restricting the cookie to the current host.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { string }
+     */
+    static host(key: string): string {
+        return this.#instance.host(key);
+    }
+
+    /**
+     * Prefix the key with "__Secure-", restricting the cookie to secure origins.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { string }
+     */
+    static secure(key: string): string {
+        return this.#instance.secure(key);
+    }
+
+    /**
+     * Set the default item validity period in seconds.
+     *
+     * @param { number | null } value
+     */
+    ttl(value: number | null): void {
+        this.#ttl = value;
+    }
+
+    /**
+     * Set the driver used to read and write cookies.
+     *
+     * @param { CookieDriver } driver Cookie storage driver.
+     */
+    driver(driver: CookieDriver): void {
+        this.#driver = driver;
+    }
+
+    /**
+     * Set the converter used to encode and decode cookie values.
+     *
+     * @param { CookieConverter } converter Cookie value converter.
+     */
+    converter(converter: CookieConverter): void {
+        this.#converter = converter;
+    }
+
+    /**
+     * Set the serializer used to convert values to and from their stored string representation.
+     *
+     * @param { CookieSerializer } serializer Cookie value serializer.
+     */
+    serializer(serializer: CookieSerializer): void {
+        this.#serializer = serializer;
+    }
+
+    /**
+     * Create a new Cookie instance with the given default attributes merged into the current ones.
+     *
+     * @param { CookieScopedAttributes } attributes Default cookie attributes.
+     *
+     * @returns { Cookie }
+     */
+    withAttributes(attributes: CookieScopedAttributes): Cookie {
+        return new Cookie({ ...this.#options(), ...attributes });
+    }
+
+    /**
+     * Create a new Cookie instance using the given converter.
+     *
+     * @param { CookieConverter } converter Cookie value converter.
+     *
+     * @returns { Cookie }
+     */
+    withConverter(converter: CookieConverter): Cookie {
+        return new Cookie({ ...this.#options(), converter });
+    }
+
+    /**
+     * Create a new Cookie instance using the given serializer.
+     *
+     * @param { CookieSerializer } serializer Cookie value serializer.
+     *
+     * @returns { Cookie }
+     */
+    withSerializer(serializer: CookieSerializer): Cookie {
+        return new Cookie({ ...this.#options(), serializer });
+    }
+
+    /**
+     * Create a new Cookie instance scoped to the given namespace.
+     *
+     * Keys are prefixed with the namespace on write and stripped on read, while methods operating on all keys only
+     * see the keys within the namespace. Namespaces can be nested.
+     *
+     * @param { string } name Name of the namespace.
+     *
+     * @returns { Cookie }
+     */
+    namespace(name: string): Cookie {
+        return new Cookie({ ...this.#options(), namespace: this.#key(name) });
+    }
+
+    /**
+     * Create a new Signed Cookie instance using the given secrets.
+     *
+     * Values are signed with the first secret, while all secrets are used for verification, allowing secrets rotation.
+     *
+     * @param { string | string[] } secrets Secret or list of secrets, ordered from the newest to the oldest.
+     *
+     * @returns { SignedCookie }
+     */
+    signed(secrets: string | string[]): SignedCookie {
+        return new SignedCookie(this, secrets);
+    }
+
+    /**
+     * Create a new Encrypted Cookie instance using the given keys.
+     *
+     * Values are encrypted with the first key, while the key version stored alongside the value is used to pick the
+     * key for decryption, allowing keys rotation.
+     *
+     * @param { CryptoKey | EncryptionKey[] } keys AES-GCM key or list of versioned keys, ordered from the newest to the oldest.
+     *
+     * @returns { EncryptedCookie }
+     */
+    encrypted(keys: CryptoKey | EncryptionKey[]): EncryptedCookie {
+        return new EncryptedCookie(this, keys);
+    }
+
+    /**
+     * Define a typed cookie, validated against the given schema.
+     *
+     * Values that are missing or do not match the schema are read as the default value.
+     *
+     * @param { string } key String containing the name of the key you want to define.
+     * @param { CookieDefinitionOptions<T> } options Definition configuration options.
+     *
+     * @returns { CookieDefinition<T> }
+     */
+    define<T>(key: string, options: CookieDefinitionOptions<T>): CookieDefinition<T> {
+        return new CookieDefinition(this, key, options);
+    }
+
+    /**
+     * Create a store bound to the key, compatible with the Svelte store contract and React's useSyncExternalStore hook.
+     *
+     * Subscribers are called with the current value right away, and again whenever the key is set or removed. The
+     * snapshot stays the same as long as the raw cookie value does not change.
+     *
+     * @param { string } key String containing the name of the key you want to bind.
+     * @param { T | (() => T) } fallback The fallback value in case the key does not exist.
+     *
+     * @returns { CookieValueStore<T> }
+     */
+    store<T = any>(key: string, fallback: T | (() => T) = null as T): CookieValueStore<T> {
+        return new CookieValueStore(this, key, fallback, (): string | null => this.#read(encode(this.#key(this.#resolve(key).root))));
+    }
+
+    /**
+     * Get the consent manager used to grant, revoke and query consent to cookie categories.
+     *
+     * Keys set with a category are only written once consent to the category is granted, and are removed once it is
+     * revoked. The consent state is stored in the Cookie itself.
+     *
+     * @returns { CookieConsent }
+     */
+    get consent(): CookieConsent {
+        return new CookieConsent(new Cookie({ driver: this.#driver, path: '/' }), this.#driver, this.#consent);
+    }
+
+    /**
+     * Register a listener called whenever any key in the Cookie changes.
+     *
+     * Changes made through the API are emitted synchronously, while changes made by other scripts or the server are
+     * detected using the CookieStore change event where available, falling back to polling otherwise.
+     *
+     * @param { 'change' } event Name of the event.
+     * @param { (event: CookieChangeEvent) => void } handler Function called with the change details.
+     *
+     * @returns { () => void } Function removing the listener.
+     */
+    on(event: 'change', handler: (event: CookieChangeEvent) => void): () => void {
+        return CookieEvents.for(this.#driver).subscribe((change: CookieChange): void => {
+            let key: string = decode(change.name);
+
+            if (this.#namespace !== null) {
+                if (!key.startsWith(`${this.#namespace}.`)) {
+                    return;
+                }
+
+                key = key.slice(this.#namespace.length + 1);
+            }
+
+            handler({
+                key,
+                oldValue: change.oldValue === null ? null : this.#parse(change.oldValue, key),
+                newValue: change.newValue === null ? null : this.#parse(change.newValue, key),
+                cause   : change.cause,
+            });
+        });
+    }
+
+    /**
+     * Register a listener called whenever the key in the Cookie changes.
+     *
+     * Changes of dot-path keys are reported under the key of the cookie holding the value, so that key is to be watched.
+     *
+     * @param { string } key String containing the name of the key you want to watch.
+     * @param { (event: CookieChangeEvent) => void } handler Function called with the change details.
+     *
+     * @returns { () => void } Function removing the listener.
+     */
+    watch(key: string, handler: (event: CookieChangeEvent) => void): () => void {
+        return this.on('change', (event: CookieChangeEvent): void => {
+            if (event.key === key) {
+                handler(event);
+            }
+        });
+    }
+
+    /**
+     * Synchronize the changes made through the API with other tabs, notifying the change listeners there.
+     *
+     * Writes, removals, as well as the clear and touch methods are broadcast to other tabs using the BroadcastChannel
+     * API, falling back to signalling through the storage event where it is not available.
+     *
+     * @param { string } channel Name of the channel, shared by all tabs.
+     *
+     * @returns { () => void } Function stopping the synchronization.
+     */
+    sync(channel: string = 'cookie'): () => void {
+        return CookieEvents.for(this.#driver).sync(channel);
+    }
+
+    /**
+     * Stage the writes and removals made by the callback, and apply them all at once.
+     *
+     * The staged writes and removals are validated before any of them is applied. If applying any of them fails, the
+     * already applied ones are rolled back, restoring the previous values along with the attributes they were written
+     * with. Staged writes and removals are not visible to reads made within the callback.
+     *
+     * @param { (cookie: Cookie) => void } callback Function making the writes and removals.
+     *
+     * @returns { CookieChangeEvent[] } List of applied changes.
+     */
+    batch(callback: (cookie: Cookie) => void): CookieChangeEvent[] {
+        if (this.#staged !== null) {
+            throw new Error('Batches cannot be nested.');
+        }
+
+        const operations: CookieOperation[] = [];
+
+        this.#staged = operations;
+
+        try {
+            callback(this);
+        } finally {
+            this.#staged = null;
+        }
+
+        operations.forEach((operation: CookieOperation): void => this.#validate(operation));
+
+        const applied: { name: string, cookies: Map<string, string | null>, value: string | null, attributes: CookieAttributes }[] = [];
+        const changes: CookieChangeEvent[] = [];
+
+        try {
+            operations.forEach(({ key, value, attributes, remove }: CookieOperation): void => {
+                const root: string = remove || this.#expired(attributes) ? key : this.#resolve(key).root;
+                const name: string = encode(this.#key(root));
+                const oldValue: string | null = this.#read(name);
+
+                applied.push({
+                    name,
+                    cookies   : this.#snapshot(name),
+                    value     : oldValue,
+                    attributes: this.#registry().get(name) ?? this.#scope(attributes),
+                });
+
+                remove ? this.remove(key, attributes) : this.set(key, value, attributes);
+
+                const newValue: string | null = this.#read(name);
+
+                if (oldValue !== newValue) {
+                    changes.push({
+                        key     : root,
+                        oldValue: oldValue === null ? null : this.#parse(oldValue, root),
+                        newValue: newValue === null ? null : this.#parse(newValue, root),
+                        cause   : newValue === null ? 'remove' : 'set',
+                    });
+                }
+            });
+        } catch (error) {
+            applied.reverse().forEach(({ name, cookies, value, attributes }): void => this.#restore(name, cookies, value, attributes));
+
+            throw error;
+        }
+
+        return changes;
+    }
+
+    /**
+     * Set the key to the Cookie.
+     *
+     * Keys set with a category consent is not granted to are not written, and an empty string is returned.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { * } value Value you want to give the key you are creating.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { string }
+     */
+    set(key: string, value: any, attributes: CookieAttributes = {}): string {
+        if (this.#staged !== null) {
+            this.#staged.push({ key, value, attributes, remove: false });
+
+            return '';
+        }
+
+        const { root, path } = this.#expired(attributes) ? { root: key, path: [] } : this.#resolve(key);
+
+        if (path.length > 0) {
+            return this.set(root, this.#assign(this.get(root), path, value), { ...this.#preserved(root), ...attributes });
+        }
+
+        if (this.#chunk(encode(this.#key(key)))) {
+            throw new Error(`The "${key}" key is reserved for a chunk of the "${key.slice(0, key.lastIndexOf('.'))}" key.`);
+        }
+
+        attributes = this.#prefixed(this.#key(key), { ...this.#attributes, ...attributes });
+
+        const category: CookieConsentCategory | undefined = attributes.category;
+        const consent: CookieConsent | null = category === undefined || this.#expired(attributes) ? null : this.consent;
+
+        if (category !== undefined && consent !== null && !consent.granted(category)) {
+            consent.defer(category, (): void => {
+                this.set(key, value, attributes);
+            });
+
+            return '';
+        }
+
+        const name: string = encode(this.#key(key));
+        const options: string = this.#serialize(attributes);
+        const lifetime: number | null = this.#expired(attributes) ? null : this.#lifetime(name, attributes);
+        const raw: string | null = value === null || value === undefined
+            ? null
+            : this.#wrap(name, this.#converter.write(this.#serializer.stringify(value), key), attributes, lifetime);
+        const chunks: string[] = raw !== null && this.#chunkSize !== null && raw.length > this.#chunkSize
+            ? raw.match(new RegExp(`[^]{1,${this.#chunkSize}}`, 'g')) as string[]
+            : [];
+
+        const cookie: string = raw === null
+            ? `${name}${options}`
+            : `${name}=${chunks.length > 0 ? `%chunks:${chunks.length}` : raw}${options}`;
+
+        const stale: number = this.#chunks(name);
+        const events: CookieEvents = CookieEvents.for(this.#driver);
+        const previous: string | null = events.listening || events.syncing ? this.#read(name) : null;
+
+        this.#budget(name, [...chunks.map((chunk: string, index: number): string => `${name}.${index}=${chunk}${options}`), cookie], attributes);
+
+        chunks.forEach((chunk: string, index: number): void => {
+            this.#driver.set(`${name}.${index}=${chunk}${options}`);
+        });
+
+        for (let index: number = chunks.length; index < stale; index++) {
+            this.#driver.set(`${name}.${index}=${this.#serialize({ ...attributes, ttl: 0, expires: new Date(0) })}`);
+        }
+
+        this.#driver.set(cookie);
+
+        if (this.#expired(attributes)) {
+            this.#registry().delete(name);
+        } else {
+            // The relative max-age is recorded as an absolute expiry, so that re-issuing the cookie keeps its lifetime.
+            const { maxAge, ...recorded } = attributes;
+
+            this.#registry().set(name, maxAge === undefined ? { ...recorded, ttl: 0 } : { ...recorded, ttl: 0, expires: new Date(Date.now() + maxAge * 1000) });
+        }
+
+        if (lifetime === null) {
+            this.#renewals().delete(name);
+        } else {
+            this.#renewals().set(name, { ttl: lifetime, renewed: Date.now() });
+        }
+
+        if ((events.listening || events.syncing) && this.#renewing) {
+            events.refresh();
+        } else if ((events.listening || events.syncing) && (previous !== null || !this.#expired(attributes))) {
+            events.emit({
+                name,
+                oldValue: previous,
+                newValue: this.#expired(attributes) ? null : this.#read(name),
+                cause   : this.#expired(attributes) ? 'remove' : this.#touching ? 'touch' : 'set',
+            });
+        }
+
+        if (category !== undefined && consent !== null) {
+            consent.track(category, this.#key(key), attributes);
+        }
+
+        return cookie;
+    }
+
+    /**
+     * Get the key from the Cookie.
+     *
+     * If the key is set on multiple paths or domains, the value listed first by the browser is returned, which is the
+     * one set on the most specific path.
+     *
+     * @param { string } key String containing the name of the key you want to get.
+     *
+     * @returns { * }
+     */
+    get(key: string, fallback: any = null): any {
+        const name: string = encode(this.#key(key));
+        const cookie: string | null = this.#chunk(name) ? null : this.#read(name);
+
+        if (cookie === null) {
+            const { root, path } = this.#resolve(key);
+            const value: any = path.length > 0 ? this.#dig(this.get(root), path) : undefined;
+
+            if (value !== undefined) {
+                return value;
+            }
+
+            return fallback instanceof Function ? fallback() : fallback ?? null;
+        }
+
+        this.renew(key);
+
+        return this.#parse(cookie, key);
+    }
+
+    /**
+     * Get all values of the key set on different paths and domains, in the order listed by the browser.
+     *
+     * Browsers list the cookies set on more specific paths first, followed by the ones created earlier.
+     *
+     * @param { string } key String containing the name of the key you want to get.
+     *
+     * @returns { *[] }
+     */
+    getAll(key: string): any[] {
+        const name: string = encode(this.#key(key));
+
+        return this.#lookupAll(name)
+            .map((cookie: string, occurrence: number): string | null => this.#join(name, cookie, occurrence))
+            .filter((cookie: string | null): cookie is string => cookie !== null)
+            .map((cookie: string): any => this.#parse(cookie, key));
+    }
+
+    /**
+     * Get the key from the Cookie, or execute the given callback and store the result.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { Function } callback Function you want to execute.
+     * @param { object } attributes
+     *
+     * @return { any }
+     */
+    remember(key: string, callback: Function, attributes: CookieAttributes = {}): any {
+        const cookie: string | null = this.get(key);
+
+        if (cookie === null) {
+            return this.set(key, callback(), attributes);
+        }
+
+        return cookie;
+    }
+
+    /**
+     * Return all items stored in the Cookie.
+     *
+     * Keys set on multiple paths or domains are listed once per cookie, each with its own value.
+     *
+     * @return { {key: string, value: any}[] }
+     */
+    all(): { key: string, value: any }[] {
+        let cookies: { key: string, value: any }[] = [];
+        const occurrences: Map<string, number> = new Map;
+        const cookie: string = this.#driver.get();
+
+        if (cookie === '') {
+            return cookies;
+        }
+
+        cookie
+            .split('; ')
+            .forEach((cookie: string): void => {
+                if (cookie === '') {
+                    return;
+                }
+
+                const index: number = cookie.indexOf('=');
+                const name: string = index === -1 ? cookie : cookie.slice(0, index);
+                const occurrence: number = occurrences.get(name) ?? 0;
+                if (this.#chunk(name)) {
+                    return;
+                }
+
+                let key: string = decode(name);
+
+                if (this.#namespace !== null) {
+                    if (!key.startsWith(`${this.#namespace}.`)) {
+                        return;
+                    }
+
+                    key = key.slice(this.#namespace.length + 1);
+                }
+
+                const value: string | null = index === -1 ? null : this.#join(name, cookie.slice(index + 1), occurrence);
+
+                occurrences.set(name, occurrence + 1);
+                cookies.push({ key, value: value === null ? null : this.#parse(value, key) });
+            });
+
+        return cookies;
+    }
+
+    /**
+     * Return the keys set on multiple paths or domains, along with all of their values.
+     *
+     * Only the first value of such keys is read by the get method, while the others are shadowed.
+     *
+     * @return { {key: string, values: any[]}[] }
+     */
+    duplicates(): { key: string, values: any[] }[] {
+        return [...new Set(this.keys())]
+            .map((key: string): { key: string, values: any[] } => ({ key, values: this.getAll(key) }))
+            .filter(({ values }: { values: any[] }): boolean => values.length > 1);
+    }
+
+    /**
+     * Removes a key from the cookie.
+     *
+     * The cookie is only removed if the path and domain match the ones it was set with. In the "everywhere" mode, the
+     * removal is attempted on every path prefix of the current location and on every parent domain.
+     *
+     * @param { string } key The name of the cookie key to remove.
+     * @param { CookieRemoveAttributes } attributes Attributes the cookie was set with.
+     *
+     * @returns { boolean } Whether the key is gone.
+     */
+    remove(key: string, attributes: CookieRemoveAttributes = {}): boolean {
+        if (this.#staged !== null) {
+            this.#staged.push({ key, value: null, attributes, remove: true });
+
+            return false;
+        }
+
+        const { everywhere = false, ...rest } = attributes;
+        const scopes: Pick<CookieAttributes, 'path' | 'domain'>[] = everywhere ? this.#scopes(rest) : [{}];
+
+        scopes.forEach((scope: Pick<CookieAttributes, 'path' | 'domain'>): void => {
+            this.set(key, '', { ...rest, ...scope, ttl: 0, expires: new Date(0) });
+        });
+
+        return this.#read(encode(this.#key(key))) === null;
+    }
+
+    /**
+     * Clear all keys stored in the Cookie.
+     *
+     * @param { CookieRemoveAttributes } attributes Attributes the cookies were set with.
+     *
+     * @returns { boolean } Whether all keys are gone.
+     */
+    clear(attributes: CookieRemoveAttributes = {}): boolean {
+        this.all().forEach((cookie: { key: string }): void => {
+            this.remove(cookie.key, attributes);
+        });
+
+        return this.isEmpty();
+    }
+
+    /**
+     * Determine if the key exists in the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to check against
+     *
+     * @return { boolean }
+     */
+    has(key: string): boolean {
+        return !!this.get(key);
+    }
+
+    /**
+     * Determine if any of the keys exists in the Cookie.
+     *
+     * @param { string | string[] } keys String containing the name of the key you want to check against
+     *
+     * @return { boolean }
+     */
+    hasAny(...keys: [string | string[]] | string[]): boolean {
+        if (keys.length === 1) {
+            if (Array.isArray(keys[0])) {
+                keys = keys[0];
+            } else {
+                keys = [keys[0]];
+            }
+        }
+
+        return keys.some((key: string): boolean => this.has(key));
+    }
+
+    /**
+     * Determine if the Cookie is empty.
+     *
+     * @return { boolean }
+     */
+    isEmpty(): boolean {
+        return this.count() === 0;
+    }
+
+    /**
+     * Determine if the Cookie is not empty.
+     *
+     * @return { boolean }
+     */
+    isNotEmpty(): boolean {
+        return !this.isEmpty();
+    }
+
+    /**
+     * Retrieves all keys from the Cookie.
+     *
+     * @return { string[] }
+     */
+    keys(): string[] {
+        return this.all().map((cookie: { key: string, value: any }): string => cookie.key);
+    }
+
+    /**
+     * Returns the total number of items in the Cookie.
+     *
+     * @return { number }
+     */
+    count(): number {
+        return this.all().length;
+    }
+
+    /**
+     * Updates the item expiration time.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { number | null } ttl Item validity period in seconds.
+     * @param { object } attributes Optional cookie attributes (only `path` is allowed).
+     */
+    touch(key: string, ttl: number | null = null, attributes: Pick<CookieAttributes, 'path'> = {}): void {
+        const cookie: any = this.get(key);
+
+        if (cookie === null) {
+            return;
+        }
+
+        ttl ??= this.#ttl;
+
+        this.#touching = true;
+
+        try {
+            this.set(key, cookie, { ttl, ...attributes });
+        } finally {
+            this.#touching = false;
+        }
+    }
+
+    /**
+     * Re-issue the sliding key with its original TTL and attributes, unless it was renewed recently.
+     *
+     * Keys are renewed at most once per throttle interval, or once per half of their TTL if it is shorter, without
+     * notifying the change listeners, as their value does not change. The TTL and attributes of the keys set with the
+     * "sliding" attribute are stored alongside their value, while they have to be passed for other keys.
+     *
+     * @param { string } key String containing the name of the key you want to renew.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { boolean } Whether the key was renewed.
+     */
+    renew(key: string, attributes: CookieAttributes = {}): boolean {
+        const name: string = encode(this.#key(key));
+        const cookie: string | null = this.#staged === null ? this.#read(name) : null;
+
+        if (cookie === null) {
+            return false;
+        }
+
+        const renewal: CookieRenewal | undefined = this.#renewals().get(name);
+        const sliding: CookieAttributes | null = this.#persisted(cookie);
+        const ttl: number | null = attributes.ttl ?? renewal?.ttl ?? sliding?.ttl ?? null;
+
+        if (!ttl) {
+            return false;
+        }
+
+        if (renewal !== undefined && Date.now() - renewal.renewed < Math.min(this.#throttle, ttl / 2) * 1000) {
+            return false;
+        }
+
+        this.#renewing = true;
+
+        try {
+            this.set(key, this.#parse(cookie, key), { ...sliding, ...this.#registry().get(name), ...attributes, ttl, sliding: true });
+        } finally {
+            this.#renewing = false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Increment the numeric value of the key, keeping its attributes and expiration time.
+     *
+     * Missing keys are treated as 0.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { number } amount Amount to increment the value by.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { number }
+     */
+    increment(key: string, amount: number = 1, attributes: CookieAttributes = {}): number {
+        return this.#update(key, (value: any): number => {
+            const number: number = value === null ? 0 : Number(value);
+
+            if (typeof value === 'boolean' || value === '' || !Number.isFinite(number)) {
+                throw new Error(`The value of the "${key}" key is not a number.`);
+            }
+
+            return number + amount;
+        }, attributes);
+    }
+
+    /**
+     * Decrement the numeric value of the key, keeping its attributes and expiration time.
+     *
+     * Missing keys are treated as 0.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { number } amount Amount to decrement the value by.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { number }
+     */
+    decrement(key: string, amount: number = 1, attributes: CookieAttributes = {}): number {
+        return this.increment(key, -amount, attributes);
+    }
+
+    /**
+     * Append the items to the array value of the key, keeping its attributes and expiration time.
+     *
+     * Missing keys are treated as an empty array.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { *[] } items Items to append.
+     *
+     * @returns { *[] }
+     */
+    push(key: string, ...items: any[]): any[] {
+        return this.#update(key, (value: any): any[] => [...this.#array(key, value), ...items], {});
+    }
+
+    /**
+     * Remove all occurrences of the items from the array value of the key, keeping its attributes and expiration time.
+     *
+     * Items are compared by their JSON representation, so that objects and arrays can be removed as well.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { *[] } items Items to remove.
+     *
+     * @returns { *[] }
+     */
+    pull(key: string, ...items: any[]): any[] {
+        const removed: string[] = items.map((item: any): string => JSON.stringify(item));
+
+        return this.#update(key, (value: any): any[] => {
+            return this.#array(key, value).filter((item: any): boolean => !removed.includes(JSON.stringify(item)));
+        }, {});
+    }
+
+    /**
+     * Merge the properties into the object value of the key, keeping its attributes and expiration time.
+     *
+     * Missing keys are treated as an empty object. Nested objects are replaced rather than merged.
+     *
+     * @param { string } key String containing the name of the key you want to update.
+     * @param { object } properties Properties to merge.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { object }
+     */
+    merge(key: string, properties: Record<string, any>, attributes: CookieAttributes = {}): Record<string, any> {
+        return this.#update(key, (value: any): Record<string, any> => {
+            if (value !== null && !this.#object(value)) {
+                throw new Error(`The value of the "${key}" key is not an object.`);
+            }
+
+            return { ...value, ...properties };
+        }, attributes);
+    }
+
+    /**
+     * Move the value of the key to the new key, keeping its attributes, and remove the old key.
+     *
+     * Attributes of the keys that were not written through the Cookie object can not be read, so such keys are moved
+     * using the default attributes.
+     *
+     * @param { string } from String containing the name of the key you want to rename.
+     * @param { string } to String containing the new name of the key.
+     *
+     * @returns { boolean } Whether the key was moved, false if it is missing or could not be removed.
+     */
+    rename(from: string, to: string): boolean {
+        const missing: symbol = Symbol();
+        const value: any = this.get(from, missing);
+
+        if (value === missing || from === to) {
+            return false;
+        }
+
+        const attributes: CookieAttributes = this.#preserved(from);
+
+        this.set(to, value, attributes);
+
+        return this.remove(from, this.#scope(attributes));
+    }
+
+    /**
+     * Run the migration steps newer than the stored schema version, in order, and store the new version.
+     *
+     * The version is stored after each step, so that a failing step is retried, without repeating the preceding ones,
+     * the next time the migration runs. A missing version is treated as 0.
+     *
+     * @param { CookieMigration } migration Target version and migration steps, keyed by the version they migrate to.
+     *
+     * @returns { number } The stored schema version.
+     */
+    migrate({ version, steps, key = 'cookie_version', ttl = 31536000 }: CookieMigration): number {
+        const current: number = Number(this.get(key, 0)) || 0;
+
+        Object.keys(steps)
+            .map(Number)
+            .filter((step: number): boolean => step > current && step <= version)
+            .sort((a: number, b: number): number => a - b)
+            .forEach((step: number): void => {
+                (steps[step] as (cookie: Cookie) => void)(this);
+
+                this.set(key, step, { ttl, path: '/' });
+            });
+
+        if (current >= version) {
+            return current;
+        }
+
+        this.set(key, version, { ttl, path: '/' });
+
+        return version;
+    }
+
+    /**
+     * Dump the key from the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to dump.
+     */
+    dump(key: string): void {
+        console.log(this.get(key));
+    }
+
+    /**
+     * Returns the size in bytes of the key, or of all items in the Cookie.
+     *
+     * The size includes the names and values of all the chunks of chunked values.
+     *
+     * @param { string | null } key String containing the name of the key you want to measure.
+     *
+     * @return { number }
+     */
+    size(key: string | null = null): number {
+        if (key === null) {
+            return this.keys().reduce((size: number, key: string): number => size + this.size(key), 0);
+        }
+
+        const name: string = encode(this.#key(key));
+        const names: string[] = [name, ...Array.from({ length: this.#chunks(name) }, (_: unknown, index: number): string => `${name}.${index}`)];
+
+        return names.reduce((size: number, name: string): number => {
+            const value: string | null = this.#lookup(name);
+
+            return value === null ? size : size + this.#bytes(`${name}=${value}`);
+        }, 0);
+    }
+
+    /**
+     * Get the expiry of the key, as recorded when the key was set with metadata.
+     *
+     * Returns null if the key does not exist, was set without metadata or expires at the end of the session.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { Date | null }
+     */
+    expiresAt(key: string): Date | null {
+        const expires: number | null = this.#envelope(this.#read(encode(this.#key(key))))?.expires ?? null;
+
+        return expires === null ? null : new Date(expires);
+    }
+
+    /**
+     * Get the remaining validity period of the key in seconds, as recorded when the key was set with metadata.
+     *
+     * Returns null if the key does not exist, was set without metadata or expires at the end of the session.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { number | null }
+     */
+    ttlOf(key: string): number | null {
+        const expires: Date | null = this.expiresAt(key);
+
+        return expires === null ? null : Math.max(0, Math.ceil((expires.getTime() - Date.now()) / 1000));
+    }
+
+    /**
+     * Get the creation time of the key, as recorded when the key was set with metadata.
+     *
+     * Returns null if the key does not exist or was set without metadata.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { Date | null }
+     */
+    createdAt(key: string): Date | null {
+        const created: number | null = this.#envelope(this.#read(encode(this.#key(key))))?.created ?? null;
+
+        return created === null ? null : new Date(created);
+    }
+
+    /**
+     * Determine if the key is missing or past its recorded expiry.
+     *
+     * Keys set without metadata are only considered expired once they are removed by the driver.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { boolean }
+     */
+    isExpired(key: string): boolean {
+        if (this.#read(encode(this.#key(key))) === null) {
+            return true;
+        }
+
+        const expires: Date | null = this.expiresAt(key);
+
+        return expires !== null && expires.getTime() <= Date.now();
+    }
+
+    /**
+     * Prefix the key with "__Host-", restricting the cookie to the current host.
+     *
+     * Such cookies must be secure, set on the "/" path and without the domain attribute.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { string }
+     */
+    host(key: string): string {
+        return `__Host-${key}`;
+    }
+
+    /**
+     * Prefix the key with "__Secure-", restricting the cookie to secure origins.
+     *
+     * Such cookies must be secure.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @return { string }
+     */
+    secure(key: string): string {
+        return `__Secure-${key}`;
+    }
+
+    /**
+     * Get the options the Cookie instance was configured with.
+     *
+     * @returns { CookieOptions }
+     */
+    #options(): CookieOptions {
+        return {
+            ...this.#attributes,
+            ttl       : this.#ttl,
+            driver    : this.#driver,
+            converter : this.#converter,
+            serializer: this.#serializer,
+            namespace : this.#namespace ?? undefined,
+            chunked   : this.#chunkSize ?? false,
+            metadata  : this.#metadata,
+            quota     : this.#quota,
+            strict    : this.#strict,
+            consent   : this.#consent,
+            throttle  : this.#throttle,
+        };
+    }
+
+    /**
+     * Prefix the key with the namespace.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @returns { string }
+     */
+    #key(key: string): string {
+        return this.#namespace === null ? key : `${this.#namespace}.${key}`;
+    }
+
+    /**
+     * Get every path and domain combination the cookie could have been set with, based on the current location.
+     *
+     * @param { Pick<CookieAttributes, 'path' | 'domain'> } attributes Path and domain the cookie was set with, if known.
+     *
+     * @returns { Pick<CookieAttributes, 'path' | 'domain'>[] }
+     */
+    #scopes(attributes: Pick<CookieAttributes, 'path' | 'domain'>): Pick<CookieAttributes, 'path' | 'domain'>[] {
+        const location: { pathname: string, hostname: string } | undefined = (globalThis as { location?: { pathname: string, hostname: string } }).location;
+        const paths: Set<string | undefined> = new Set([undefined, attributes.path, '/']);
+        const domains: Set<string | undefined> = new Set([undefined, attributes.domain]);
+
+        if (location !== undefined) {
+            const segments: string[] = location.pathname.split('/').filter((segment: string): boolean => segment !== '');
+            const labels: string[] = location.hostname.split('.');
+
+            segments.forEach((_: string, index: number): void => {
+                paths.add(`/${segments.slice(0, index + 1).join('/')}`);
+            });
+
+            for (let index: number = 0; index < labels.length - 1; index++) {
+                domains.add(labels.slice(index).join('.'));
+            }
+        }
+
+        return [...domains].flatMap((domain: string | undefined): Pick<CookieAttributes, 'path' | 'domain'>[] => {
+            return [...paths].map((path: string | undefined): Pick<CookieAttributes, 'path' | 'domain'> => ({ path, domain }));
+        });
+    }
+
+    /**
+     * Resolve the dot-path key into the key of the cookie holding the value and the path to the value within it.
+     *
+     * The key is only treated as a path if no cookie with the full key exists and the cookie with the longest
+     * matching prefix holds an object or an array. Chunks of chunked values do not count as cookies with the full key.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @returns { { root: string, path: string[] } }
+     */
+    #resolve(key: string): { root: string, path: string[] } {
+        const name: string = encode(this.#key(key));
+
+        if (!key.includes('.') || !this.#chunk(name) && this.#read(name) !== null) {
+            return { root: key, path: [] };
+        }
+
+        const segments: string[] = key.split('.');
+
+        for (let index: number = segments.length - 1; index > 0; index--) {
+            const root: string = segments.slice(0, index).join('.');
+
+            if (this.#read(encode(this.#key(root))) !== null) {
+                return this.#object(this.get(root)) ? { root, path: segments.slice(index) } : { root: key, path: [] };
+            }
+        }
+
+        return { root: key, path: [] };
+    }
+
+    /**
+     * Get the value at the path within the object.
+     *
+     * @param { * } value Object holding the value.
+     * @param { string[] } path Path to the value.
+     *
+     * @returns { * }
+     */
+    #dig(value: any, path: string[]): any {
+        return path.reduce((value: any, segment: string): any => this.#object(value) ? value[segment] : undefined, value);
+    }
+
+    /**
+     * Set the value at the path within a copy of the object, creating the missing objects along the path.
+     *
+     * @param { * } object Object holding the value.
+     * @param { string[] } path Path to the value.
+     * @param { * } value Value to set.
+     *
+     * @returns { object }
+     */
+    #assign(object: any, path: string[], value: any): Record<string, any> {
+        const [segment, ...rest] = path as [string, ...string[]];
+        const copy: Record<string, any> = Array.isArray(object) ? [...object] : { ...object };
+
+        copy[segment] = rest.length === 0 ? value : this.#assign(this.#object(copy[segment]) ? copy[segment] : {}, rest, value);
+
+        return copy;
+    }
+
+    /**
+     * Determine if the value is an object or an array.
+     *
+     * @param { * } value Value to check.
+     *
+     * @returns { boolean }
+     */
+    #object(value: any): boolean {
+        return typeof value === 'object' && value !== null;
+    }
+
+    /**
+     * Get the array value of the key, treating missing keys as an empty array.
+     *
+     * @param { string } key String containing the name of the key.
+     * @param { * } value Value of the key.
+     *
+     * @returns { *[] }
+     */
+    #array(key: string, value: any): any[] {
+        if (value !== null && !Array.isArray(value)) {
+            throw new Error(`The value of the "${key}" key is not an array.`);
+        }
+
+        return value ?? [];
+    }
+
+    /**
+     * Update the value of the key, keeping its attributes and expiration time.
+     *
+     * @param { string } key String containing the name of the key.
+     * @param { (value: *) => T } callback Function returning the updated value.
+     * @param { CookieAttributes } attributes Cookie configuration options, merged into the existing ones.
+     *
+     * @returns { T }
+     */
+    #update<T>(key: string, callback: (value: any) => T, attributes: CookieAttributes): T {
+        const value: T = callback(this.get(key));
+
+        this.set(key, value, this.#resolve(key).path.length > 0 ? attributes : { ...this.#preserved(key), ...attributes });
+
+        return value;
+    }
+
+    /**
+     * Get the attributes the existing cookie was written with, as far as they are known.
+     *
+     * @param { string } key String containing the name of the key.
+     *
+     * @returns { CookieAttributes }
+     */
+    #preserved(key: string): CookieAttributes {
+        const name: string = encode(this.#key(key));
+        const cookie: string | null = this.#read(name);
+
+        if (cookie === null) {
+            return {};
+        }
+
+        const expires: number | null = this.#envelope(cookie)?.expires ?? null;
+
+        return this.#registry().get(name) ?? this.#persisted(cookie) ?? (expires === null ? {} : { expires: new Date(expires), ttl: 0 });
+    }
+
     /**
-     * Default item validity period in seconds.
+     * Validate the staged write or removal, throwing if it cannot be applied.
      *
-     * @type { number | null }
+     * @param { CookieOperation } operation Staged write or removal.
      */
-    static #ttl: number | null = null;
+    #validate({ key, attributes, remove }: CookieOperation): void {
+        const expiration: CookieAttributes = remove ? { ttl: 0, expires: new Date(0) } : {};
+
+        this.#serialize(this.#prefixed(this.#key(key), { ...this.#attributes, ...attributes, ...expiration }));
+    }
 
     /**
-     * Set the default item validity period in seconds.
+     * Get the attributes scoping the cookie, used to restore cookies whose attributes are unknown.
      *
-     * @param { number | null } value
+     * @param { CookieAttributes | CookieRemoveAttributes } attributes Cookie configuration options.
+     *
+     * @returns { CookieAttributes }
      */
-    static ttl(value: number | null): void {
-        this.#ttl = value;
+    #scope(attributes: CookieAttributes | CookieRemoveAttributes): CookieAttributes {
+        const { path, domain, sameSite, secure, partitioned, priority, httpOnly } = { ...this.#attributes, ...attributes };
+
+        return { path, domain, sameSite, secure, partitioned, priority, httpOnly, ttl: 0 };
     }
 
     /**
-     * Set the key to the Cookie.
+     * Read the raw values of the cookie and its chunks.
+     *
+     * @param { string } name Encoded name of the cookie.
+     *
+     * @returns { Map<string, string | null> }
+     */
+    #snapshot(name: string): Map<string, string | null> {
+        const names: string[] = [name, ...Array.from({ length: this.#chunks(name) }, (_: unknown, index: number): string => `${name}.${index}`)];
+
+        return new Map(names.map((chunk: string): [string, string | null] => [chunk, this.#lookup(chunk)]));
+    }
+
+    /**
+     * Restore the cookie and its chunks to the given raw values.
+     *
+     * @param { string } name Encoded name of the cookie.
+     * @param { Map<string, string | null> } cookies Raw values of the cookie and its chunks.
+     * @param { string | null } value Raw value of the cookie, with the chunks joined.
+     * @param { CookieAttributes } attributes Attributes the cookie was written with.
+     */
+    #restore(name: string, cookies: Map<string, string | null>, value: string | null, attributes: CookieAttributes): void {
+        const events: CookieEvents = CookieEvents.for(this.#driver);
+        const current: string | null = this.#read(name);
+
+        this.#snapshot(name).forEach((cookie: string | null, chunk: string): void => {
+            if (cookie !== null && (cookies.get(chunk) ?? null) === null) {
+                this.#driver.set(`${chunk}=${this.#serialize({ ...attributes, maxAge: undefined, ttl: 0, expires: new Date(0) })}`);
+            }
+        });
+
+        cookies.forEach((cookie: string | null, chunk: string): void => {
+            if (cookie !== null) {
+                this.#driver.set(`${chunk}=${cookie}${this.#serialize({ ...attributes })}`);
+            }
+        });
+
+        if (value === null) {
+            this.#registry().delete(name);
+        } else {
+            this.#registry().set(name, attributes);
+        }
+
+        if ((events.listening || events.syncing) && current !== value) {
+            events.emit({ name, oldValue: current, newValue: value, cause: value === null ? 'remove' : 'set' });
+        }
+    }
+
+    /**
+     * Get the attributes of the cookies written through the API on the driver.
+     *
+     * @returns { Map<string, CookieAttributes> }
+     */
+    #registry(): Map<string, CookieAttributes> {
+        if (!Cookie.#registries.has(this.#driver)) {
+            Cookie.#registries.set(this.#driver, new Map);
+        }
+
+        return Cookie.#registries.get(this.#driver) as Map<string, CookieAttributes>;
+    }
+
+    /**
+     * Get the original TTL and last renewal time of the sliding cookies written through the API on the driver.
+     *
+     * @returns { Map<string, CookieRenewal> }
+     */
+    #renewals(): Map<string, CookieRenewal> {
+        if (!Cookie.#sliding.has(this.#driver)) {
+            Cookie.#sliding.set(this.#driver, new Map);
+        }
+
+        return Cookie.#sliding.get(this.#driver) as Map<string, CookieRenewal>;
+    }
+
+    /**
+     * Apply the attributes required by the "__Host-" and "__Secure-" name prefixes.
+     *
+     * In strict mode, cookies violating the prefix rules are rejected, unless they are being removed.
+     *
+     * @param { string } key Name of the key, including the namespace.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { CookieAttributes }
+     */
+    #prefixed(key: string, attributes: CookieAttributes): CookieAttributes {
+        const host: boolean = /^__Host-/i.test(key);
+
+        if (!host && !/^__Secure-/i.test(key)) {
+            return attributes;
+        }
+
+        if (this.#strict && !this.#expired(attributes)) {
+            const prefix: string = host ? '__Host-' : '__Secure-';
+
+            if (!attributes.secure) {
+                throw new Error(`The "${prefix}" prefixed cookie "${key}" must have the "secure" attribute set to "true".`);
+            }
+
+            if (host && attributes.path !== '/') {
+                throw new Error(`The "${prefix}" prefixed cookie "${key}" must have the "path" attribute set to "/".`);
+            }
+
+            if (host && attributes.domain) {
+                throw new Error(`The "${prefix}" prefixed cookie "${key}" must not have the "domain" attribute set.`);
+            }
+        }
+
+        if (!host) {
+            return { ...attributes, secure: true };
+        }
+
+        const { domain, ...rest } = attributes;
+
+        return { ...rest, secure: true, path: '/' };
+    }
+
+    /**
+     * Serialize the cookie attributes.
      *
-     * @param { string } key String containing the name of the key you want to create.
-     * @param { * } value Value you want to give the key you are creating.
      * @param { CookieAttributes } attributes Cookie configuration options.
      *
      * @returns { string }
      */
-    static set(key: string, value: any, attributes: CookieAttributes = {}): string {
-        let cookie: string = value === null || value === undefined
-            ? `${key}`
-            : `${key}=${this.#stringify(value)}`;
+    #serialize(attributes: CookieAttributes): string {
+        let cookie: string = '';
 
         attributes.ttl ??= this.#ttl;
         attributes.expires = this.#expires(attributes.expires);
@@ -49,6 +2085,10 @@ export class Cookie {
             cookie += `; expires=${attributes.expires.toUTCString()}`;
         }
 
+        if (attributes.maxAge !== undefined) {
+            cookie += `; max-age=${Math.floor(attributes.maxAge)}`;
+        }
+
         if (attributes.path) {
             cookie += `; path=${attributes.path}`;
         }
@@ -61,227 +2101,346 @@ export class Cookie {
             cookie += `; SameSite=${attributes.sameSite}`;
         }
 
-        if (attributes.sameSite === 'None' || attributes.secure) {
+        if (attributes.sameSite === 'None' || attributes.partitioned || attributes.secure) {
             cookie += '; Secure';
         }
 
+        if (attributes.partitioned) {
+            cookie += '; Partitioned';
+        }
+
+        if (attributes.priority) {
+            cookie += `; Priority=${attributes.priority}`;
+        }
+
+        if (attributes.httpOnly) {
+            cookie += '; HttpOnly';
+        }
+
         if (attributes.sameSite === 'None' && !attributes.secure) {
             throw new Error('The "secure" attribute must be set to "true" if "sameSite" is set to "None".');
         }
 
-        document.cookie = cookie;
+        if (attributes.partitioned && !attributes.secure) {
+            throw new Error('The "secure" attribute must be set to "true" if "partitioned" is set to "true".');
+        }
+
+        if (attributes.httpOnly && !this.#driver.server) {
+            throw new Error('The "httpOnly" attribute can only be set when using a server-side driver.');
+        }
 
         return cookie;
     }
 
     /**
-     * Get the key from the Cookie.
+     * Read the raw value of the cookie, joining the chunks of chunked values.
      *
-     * @param { string } key String containing the name of the key you want to get.
+     * @param { string } name Encoded name of the cookie.
      *
-     * @returns { * }
+     * @returns { string | null }
      */
-    static get(key: string, fallback: any = null): any {
-        // Escape special regex characters in the key.
-        key = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-        const cookies: RegExpMatchArray | null = new RegExp(`(^|;\\s*)${key}=([^;]*)`).exec(document.cookie);
-
-        if (cookies === null) {
-            return fallback instanceof Function ? fallback() : fallback ?? null;
-        }
-
-        const cookie: string = cookies[2] as string;
+    #read(name: string): string | null {
+        const cookie: string | null = this.#lookup(name);
 
-        try {
-            return JSON.parse(cookie);
-        } catch {
-            return cookie;
-        }
+        return cookie === null ? null : this.#join(name, cookie, 0);
     }
 
     /**
-     * Get the key from the Cookie, or execute the given callback and store the result.
+     * Join the chunks of the raw value, if it is chunked.
      *
-     * @param { string } key String containing the name of the key you want to create.
-     * @param { Function } callback Function you want to execute.
-     * @param { object } attributes
+     * @param { string } name Encoded name of the cookie.
+     * @param { string } cookie Raw cookie value.
+     * @param { number } occurrence Index of the cookie among the cookies with the same name.
      *
-     * @return { any }
+     * @returns { string | null }
      */
-    static remember(key: string, callback: Function, attributes: CookieAttributes = {}): any {
-        const cookie: string | null = this.get(key);
+    #join(name: string, cookie: string, occurrence: number): string | null {
+        const chunks: RegExpMatchArray | null = cookie.match(/^%chunks:(\d+)$/);
 
-        if (cookie === null) {
-            return this.set(key, callback(), attributes);
+        if (chunks === null) {
+            return cookie;
         }
 
-        return cookie;
+        const values: (string | undefined)[] = Array.from({ length: Number(chunks[1]) }, (_: unknown, index: number): string | undefined => {
+            return this.#lookupAll(`${name}.${index}`)[occurrence];
+        });
+
+        return values.includes(undefined) ? null : values.join('');
     }
 
     /**
-     * Return all items stored in the Cookie.
+     * Look up the raw value of the cookie.
      *
-     * @return { {key: string, value: any}[] }
+     * @param { string } name Encoded name of the cookie.
+     *
+     * @returns { string | null }
      */
-    static all(): { key: string, value: any }[] {
-        let cookies: { key: string, value: any }[] = [];
-
-        if (document.cookie === '') {
-            return cookies;
-        }
-
-        document.cookie
-            .split('; ')
-            .forEach((cookie: string): void => {
-                if (cookie === '') {
-                    return;
-                }
-
-                const key: string = cookie.split('=')[0] as string;
-
-                cookies.push({ key, value: this.get(key) });
-            });
-
-        return cookies;
+    #lookup(name: string): string | null {
+        return this.#lookupAll(name)[0] ?? null;
     }
 
     /**
-     * Removes a key from the cookie.
+     * Look up the raw values of all cookies with the name, in the order listed by the driver.
      *
-     * @param { string } key The name of the cookie key to remove.
-     * @param { object} attributes Optional cookie attributes (only `path` is allowed).
+     * @param { string } name Encoded name of the cookie.
+     *
+     * @returns { string[] }
      */
-    static remove(key: string, attributes: Pick<CookieAttributes, 'path'> = {}): void {
-        this.set(key, '', { ...attributes, expires: new Date(0) });
+    #lookupAll(name: string): string[] {
+        // Escape special regex characters in the encoded key.
+        name = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+        return [...this.#driver.get().matchAll(new RegExp(`(^|;\\s*)${name}=([^;]*)`, 'g'))].map((cookie: RegExpMatchArray): string => cookie[2] as string);
     }
 
     /**
-     * Clear all keys stored in the Cookie.
+     * Get the number of chunks the cookie value is split into.
      *
-     * @param { object } attributes Optional cookie attributes (only `path` is allowed).
+     * @param { string } name Encoded name of the cookie.
+     *
+     * @returns { number }
      */
-    static clear(attributes: Pick<CookieAttributes, 'path'> = {}): void {
-        this.all().forEach((cookie: { key: string }): void => {
-            this.remove(cookie.key, attributes);
-        });
+    #chunks(name: string): number {
+        const chunks: RegExpMatchArray | null = this.#lookup(name)?.match(/^%chunks:(\d+)$/) ?? null;
+
+        return chunks === null ? 0 : Number(chunks[1]);
     }
 
     /**
-     * Determine if the key exists in the Cookie.
+     * Determine if the cookie is a chunk of a chunked cookie value.
      *
-     * @param { string } key String containing the name of the key you want to check against
+     * @param { string } name Encoded name of the cookie.
      *
-     * @return { boolean }
+     * @returns { boolean }
      */
-    static has(key: string): boolean {
-        return !!this.get(key);
+    #chunk(name: string): boolean {
+        const chunk: RegExpMatchArray | null = name.match(/^(.*)\.(\d+)$/);
+
+        return chunk !== null && Number(chunk[2]) < this.#chunks(chunk[1] as string);
     }
 
     /**
-     * Determine if any of the keys exists in the Cookie.
+     * Prefix the raw value with the TTL and attributes of sliding cookies, and the expiry and creation time, if
+     * metadata is enabled.
      *
-     * @param { string | string[] } keys String containing the name of the key you want to check against
+     * Like browsers do, the creation time of the overwritten cookie is kept.
      *
-     * @return { boolean }
+     * @param { string } name Encoded name of the cookie.
+     * @param { string } raw Raw cookie value.
+     * @param { CookieAttributes } attributes Serialized cookie configuration options.
+     * @param { number | null } lifetime TTL the sliding cookie is renewed with, or null if the cookie is not sliding.
+     *
+     * @returns { string }
      */
-    static hasAny(...keys: [string | string[]] | string[]): boolean {
-        if (keys.length === 1) {
-            if (Array.isArray(keys[0])) {
-                keys = keys[0];
-            } else {
-                keys = [keys[0]];
-            }
+    #wrap(name: string, raw: string, attributes: CookieAttributes, lifetime: number | null): string {
+        if (this.#expired(attributes)) {
+            return raw;
         }
 
-        return keys.some((key: string): boolean => this.has(key));
+        if (lifetime !== null) {
+            const scope: string[][] = Object.entries(this.#scope(attributes))
+                .filter(([name, value]: [string, unknown]): boolean => name !== 'ttl' && value !== undefined && value !== false)
+                .map(([name, value]: [string, unknown]): string[] => [name, String(value)]);
+
+            raw = `%sliding:${lifetime}:${new URLSearchParams(scope)}:${raw}`;
+        }
+
+        if (!this.#metadata) {
+            return raw;
+        }
+
+        const created: number = this.#envelope(this.#read(name))?.created ?? Date.now();
+        const expires: number | null = attributes.maxAge !== undefined
+            ? Date.now() + attributes.maxAge * 1000
+            : attributes.expires instanceof Date ? attributes.expires.getTime() : null;
+
+        return `%meta:${created}:${expires ?? ''}:${raw}`;
     }
 
     /**
-     * Determine if the Cookie is empty.
+     * Strip the expiry and creation time from the raw value.
      *
-     * @return { boolean }
+     * @param { string } raw Raw cookie value.
+     *
+     * @returns { string }
      */
-    static isEmpty(): boolean {
-        return document.cookie.length === 0;
+    #unwrap(raw: string): string {
+        return raw.replace(/^%meta:\d+:\d*:/, '').replace(/^%sliding:\d+:[^:]*:/, '');
     }
 
     /**
-     * Determine if the Cookie is not empty.
+     * Parse the raw cookie value.
      *
-     * @return { boolean }
+     * @param { string } raw Raw cookie value.
+     * @param { string } key Name of the key, without the namespace.
+     *
+     * @returns { * }
      */
-    static isNotEmpty(): boolean {
-        return !this.isEmpty();
+    #parse(raw: string, key: string): any {
+        return this.#serializer.parse(this.#converter.read(this.#unwrap(raw), key));
     }
 
     /**
-     * Retrieves all keys from the Cookie.
+     * Parse the expiry and creation time stored alongside the raw value.
      *
-     * @return { string[] }
+     * @param { string | null } raw Raw cookie value.
+     *
+     * @returns { { created: number, expires: number | null } | null }
      */
-    static keys(): string[] {
-        return this.all().map((cookie: { key: string, value: any }): string => cookie.key);
+    #envelope(raw: string | null): { created: number, expires: number | null } | null {
+        const envelope: RegExpMatchArray | null = raw?.match(/^%meta:(\d+):(\d*):/) ?? null;
+
+        if (envelope === null) {
+            return null;
+        }
+
+        return { created: Number(envelope[1]), expires: envelope[2] === '' ? null : Number(envelope[2]) };
     }
 
     /**
-     * Returns the total number of items in the Cookie.
+     * Parse the TTL and attributes stored alongside the raw value of the sliding cookie.
      *
-     * @return { number }
+     * @param { string } raw Raw cookie value.
+     *
+     * @returns { CookieAttributes | null }
      */
-    static count(): number {
-        return this.all().length;
+    #persisted(raw: string | null): CookieAttributes | null {
+        const envelope: RegExpMatchArray | null = raw?.replace(/^%meta:\d+:\d*:/, '').match(/^%sliding:(\d+):([^:]*):/) ?? null;
+
+        if (envelope === null || Number(envelope[1]) === 0) {
+            return null;
+        }
+
+        const attributes: Record<string, string | boolean> = Object.fromEntries(new URLSearchParams(envelope[2]));
+
+        ['secure', 'partitioned', 'httpOnly'].forEach((name: string): void => {
+            if (name in attributes) {
+                attributes[name] = attributes[name] === 'true';
+            }
+        });
+
+        return { ...attributes, ttl: Number(envelope[1]), sliding: true };
     }
 
     /**
-     * Updates the item expiration time.
+     * Get the TTL the sliding cookie is renewed with, or null if the cookie is not sliding.
      *
-     * @param { string } key String containing the name of the key you want to update.
-     * @param { number | null } ttl Item validity period in seconds.
-     * @param { object } attributes Optional cookie attributes (only `path` is allowed).
+     * Writes without a TTL, such as the ones of the structured helpers, keep the TTL the cookie was set with.
+     *
+     * @param { string } name Encoded name of the cookie.
+     * @param { CookieAttributes } attributes Serialized cookie configuration options.
+     *
+     * @returns { number | null }
      */
-    static touch(key: string, ttl: number | null = null, attributes: Pick<CookieAttributes, 'path'> = {}): void {
-        const cookie: any = this.get(key);
+    #lifetime(name: string, attributes: CookieAttributes): number | null {
+        if (!attributes.sliding) {
+            return null;
+        }
 
-        if (cookie === null) {
+        return attributes.ttl || attributes.maxAge || this.#renewals().get(name)?.ttl || this.#persisted(this.#read(name))?.ttl || null;
+    }
+
+    /**
+     * Enforce the size limits before writing the serialized cookies.
+     *
+     * @param { string } name Encoded name of the cookie.
+     * @param { string[] } cookies Serialized cookies about to be written.
+     * @param { CookieAttributes } attributes Serialized cookie configuration options.
+     */
+    #budget(name: string, cookies: string[], attributes: CookieAttributes): void {
+        const { policy, size, count } = this.#quota;
+
+        if (policy === 'ignore' || this.#expired(attributes)) {
             return;
         }
 
-        ttl ??= this.#ttl;
+        // Browsers limit the size of the name and the value, while each attribute value is limited on its own.
+        const oversized: string | undefined = cookies.find((cookie: string): boolean => this.#bytes(cookie.split(';')[0] as string) > size);
+
+        if (oversized !== undefined) {
+            this.#exceeded(`The cookie "${decode(name)}" exceeds the limit of ${size} bytes.`, policy === 'evict-oldest' ? 'warn' : policy);
+        }
+
+        const attribute: string | undefined = (cookies[0] ?? '').split('; ').slice(1).find((attribute: string): boolean => {
+            return this.#bytes(attribute.slice(attribute.indexOf('=') + 1)) > 1024;
+        });
+
+        if (attribute !== undefined) {
+            this.#exceeded(`The "${attribute.split('=')[0]}" attribute of the cookie "${decode(name)}" exceeds the limit of 1024 bytes.`, policy === 'evict-oldest' ? 'warn' : policy);
+        }
+
+        const names: string[] = cookies.map((cookie: string): string => cookie.split(/[=;]/)[0] as string);
+        const existing: string[] = this.#driver.get()
+            .split('; ')
+            .filter((cookie: string): boolean => cookie !== '')
+            .map((cookie: string): string => cookie.split('=')[0] as string);
+
+        const overflow: number = existing.length + names.filter((name: string): boolean => !existing.includes(name)).length - count;
+
+        if (overflow <= 0) {
+            return;
+        }
+
+        if (policy !== 'evict-oldest') {
+            this.#exceeded(`Writing the cookie "${decode(name)}" exceeds the limit of ${count} cookies.`, policy);
+
+            return;
+        }
+
+        const root: Cookie = new Cookie({ ...this.#options(), namespace: undefined });
+        let evicted: number = 0;
+
+        [...new Set(existing)]
+            .filter((cookie: string): boolean => !names.includes(cookie) && !this.#chunk(cookie))
+            .forEach((cookie: string): void => {
+                if (evicted >= overflow) {
+                    return;
+                }
+
+                evicted += 1 + this.#chunks(cookie);
 
-        this.set(key, cookie, { ttl, ...attributes });
+                root.remove(decode(cookie), this.#scope(this.#registry().get(cookie) ?? {}));
+            });
     }
 
     /**
-     * Dump the key from the Cookie.
+     * Report the exceeded size limit according to the policy.
      *
-     * @param { string } key String containing the name of the key you want to dump.
+     * @param { string } message Description of the exceeded limit.
+     * @param { CookieQuota['policy'] } policy Size limits policy.
      */
-    static dump(key: string): void {
-        console.log(this.get(key));
+    #exceeded(message: string, policy: CookieQuota['policy']): void {
+        if (policy === 'throw') {
+            throw new Error(message);
+        }
+
+        console.warn(message);
     }
 
     /**
-     * Stringifies a value for cookie storage.
+     * Get the size of the string in bytes.
      *
-     * @param { * } value Value to be stored in cookie.
+     * @param { string } value String to measure.
      *
-     * @returns { string }
+     * @returns { number }
      */
-    static #stringify(value: any): string {
-        if (value === null || value === undefined) {
-            return '';
-        }
+    #bytes(value: string): number {
+        return new TextEncoder().encode(value).length;
+    }
 
-        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
-            return value.toString();
+    /**
+     * Determine if the serialized cookie attributes make the cookie expired.
+     *
+     * @param { CookieAttributes } attributes Serialized cookie configuration options.
+     *
+     * @returns { boolean }
+     */
+    #expired(attributes: CookieAttributes): boolean {
+        if (attributes.maxAge !== undefined && attributes.maxAge <= 0) {
+            return true;
         }
 
-        try {
-            return JSON.stringify(value);
-        } catch {
-            return '';
-        }
+        return attributes.expires instanceof Date && attributes.expires.getTime() <= Date.now();
     }
 
     /**
@@ -291,7 +2450,7 @@ export class Cookie {
      *
      * @returns { Date | undefined }
      */
-    static #expires(expires?: Date | string): Date | undefined {
+    #expires(expires?: Date | string): Date | undefined {
         if (!expires) {
             return undefined;
         }
@@ -309,3 +2468,5 @@ export class Cookie {
         }
     }
 }
+
+AsyncCookie.fallback((options: CookieOptions): Cookie => Cookie.create(options));
@@ -0,0 +1,174 @@
+export interface CookieSchema<T> {
+    /**
+     * Validate and coerce the value, throwing if the value does not match the schema.
+     *
+     * @param { * } value Value to validate.
+     *
+     * @returns { T }
+     */
+    parse(value: unknown): T;
+}
+
+export type CookieSchemaType<S> = S extends CookieSchema<infer T> ? T : never;
+
+export const schema = {
+    /**
+     * Create a schema matching strings, coercing numbers and booleans.
+     *
+     * @returns { CookieSchema<string> }
+     */
+    string(): CookieSchema<string> {
+        return {
+            parse(value: unknown): string {
+                if (typeof value === 'number' || typeof value === 'boolean') {
+                    return value.toString();
+                }
+
+                if (typeof value !== 'string') {
+                    throw new Error(`Expected a string, received ${describe(value)}.`);
+                }
+
+                return value;
+            },
+        };
+    },
+
+    /**
+     * Create a schema matching finite numbers, coercing numeric strings.
+     *
+     * @returns { CookieSchema<number> }
+     */
+    number(): CookieSchema<number> {
+        return {
+            parse(value: unknown): number {
+                const number: unknown = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+                if (typeof number !== 'number' || !Number.isFinite(number)) {
+                    throw new Error(`Expected a number, received ${describe(value)}.`);
+                }
+
+                return number;
+            },
+        };
+    },
+
+    /**
+     * Create a schema matching booleans, coercing "true" and "false" strings.
+     *
+     * @returns { CookieSchema<boolean> }
+     */
+    boolean(): CookieSchema<boolean> {
+        return {
+            parse(value: unknown): boolean {
+                if (value === 'true' || value === 'false') {
+                    return value === 'true';
+                }
+
+                if (typeof value !== 'boolean') {
+                    throw new Error(`Expected a boolean, received ${describe(value)}.`);
+                }
+
+                return value;
+            },
+        };
+    },
+
+    /**
+     * Create a schema matching one of the given values.
+     *
+     * @param { T } values Allowed values.
+     *
+     * @returns { CookieSchema<T[number]> }
+     */
+    enum<const T extends readonly (string | number | boolean)[]>(...values: T): CookieSchema<T[number]> {
+        return {
+            parse(value: unknown): T[number] {
+                const match: T[number] | undefined = values.find((allowed: T[number]): boolean => allowed === value || allowed.toString() === value);
+
+                if (match === undefined) {
+                    throw new Error(`Expected one of ${values.map((value: T[number]): string => JSON.stringify(value)).join(', ')}, received ${describe(value)}.`);
+                }
+
+                return match;
+            },
+        };
+    },
+
+    /**
+     * Create a schema matching arrays of items matching the given schema.
+     *
+     * @param { CookieSchema<T> } item Schema of the array items.
+     *
+     * @returns { CookieSchema<T[]> }
+     */
+    array<T>(item: CookieSchema<T>): CookieSchema<T[]> {
+        return {
+            parse(value: unknown): T[] {
+                if (!Array.isArray(value)) {
+                    throw new Error(`Expected an array, received ${describe(value)}.`);
+                }
+
+                return value.map((value: unknown): T => item.parse(value));
+            },
+        };
+    },
+
+    /**
+     * Create a schema matching objects with properties matching the given schemas, dropping unknown properties.
+     *
+     * @param { { [K in keyof T]: CookieSchema<T[K]> } } shape Schemas of the object properties.
+     *
+     * @returns { CookieSchema<T> }
+     */
+    object<T extends Record<string, unknown>>(shape: { [K in keyof T]: CookieSchema<T[K]> }): CookieSchema<T> {
+        return {
+            parse(value: unknown): T {
+                if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                    throw new Error(`Expected an object, received ${describe(value)}.`);
+                }
+
+                const object: Partial<T> = {};
+
+                (Object.keys(shape) as (keyof T)[]).forEach((key: keyof T): void => {
+                    try {
+                        object[key] = shape[key].parse((value as Record<keyof T, unknown>)[key]);
+                    } catch (error) {
+                        throw new Error(`Invalid property "${String(key)}": ${(error as Error).message}`);
+                    }
+                });
+
+                return object as T;
+            },
+        };
+    },
+
+    /**
+     * Create a schema matching the given schema, or undefined and null values.
+     *
+     * @param { CookieSchema<T> } schema Schema of the defined value.
+     *
+     * @returns { CookieSchema<T | undefined> }
+     */
+    optional<T>(schema: CookieSchema<T>): CookieSchema<T | undefined> {
+        return {
+            parse(value: unknown): T | undefined {
+                return value === undefined || value === null ? undefined : schema.parse(value);
+            },
+        };
+    },
+};
+
+/**
+ * Describe the type of the value for error messages.
+ *
+ * @param { * } value Value to describe.
+ *
+ * @returns { string }
+ */
+function describe(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+
+    return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,263 @@
+/**
+ * Stringifies a value for cookie storage.
+ *
+ * @param { * } value Value to be stored in cookie.
+ *
+ * @returns { string }
+ */
+export function stringify(value: any): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value.toString();
+    }
+
+    try {
+        return JSON.stringify(value);
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Parses a stored cookie value, returning the raw string if it is not valid JSON.
+ *
+ * @param { string } value Stored cookie value.
+ *
+ * @returns { * }
+ */
+export function parse(value: string): any {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
+
+export interface CookieSerializer {
+    /**
+     * Convert the value into its stored string representation.
+     *
+     * @param { * } value Value to be stored in cookie.
+     *
+     * @returns { string }
+     */
+    stringify(value: any): string;
+
+    /**
+     * Convert the stored string representation back into the value.
+     *
+     * @param { string } value Stored cookie value.
+     *
+     * @returns { * }
+     */
+    parse(value: string): any;
+}
+
+export type CookieCodec<T> = {
+    test(value: unknown): boolean;
+    encode(value: T): unknown;
+    decode(value: any): T;
+};
+
+export class DefaultCookieSerializer implements CookieSerializer {
+    /**
+     * Store strings, numbers and booleans as they are, and everything else as JSON.
+     *
+     * @param { * } value Value to be stored in cookie.
+     *
+     * @returns { string }
+     */
+    stringify(value: any): string {
+        return stringify(value);
+    }
+
+    /**
+     * Parse the stored value as JSON, returning the raw string if it is not valid JSON.
+     *
+     * @param { string } value Stored cookie value.
+     *
+     * @returns { * }
+     */
+    parse(value: string): any {
+        return parse(value);
+    }
+}
+
+export class TaggedCookieSerializer implements CookieSerializer {
+    /**
+     * Prefix marking values written by the serializer.
+     *
+     * @type { string }
+     */
+    static readonly prefix: string = '~';
+
+    /**
+     * Codecs used to encode and decode values which are not supported by JSON, keyed by the type name.
+     *
+     * @type { Map<string, CookieCodec<any>> }
+     */
+    #codecs: Map<string, CookieCodec<any>> = new Map;
+
+    /**
+     * Create a new Tagged Cookie Serializer instance, supporting Date, Map, Set and BigInt values.
+     */
+    constructor() {
+        this.register<Date>('Date', {
+            test  : (value: unknown): boolean => value instanceof Date,
+            encode: (value: Date): number => value.getTime(),
+            decode: (value: number): Date => new Date(value),
+        });
+
+        this.register<Map<unknown, unknown>>('Map', {
+            test  : (value: unknown): boolean => value instanceof Map,
+            encode: (value: Map<unknown, unknown>): [unknown, unknown][] => [...value.entries()],
+            decode: (value: [unknown, unknown][]): Map<unknown, unknown> => new Map(value),
+        });
+
+        this.register<Set<unknown>>('Set', {
+            test  : (value: unknown): boolean => value instanceof Set,
+            encode: (value: Set<unknown>): unknown[] => [...value.values()],
+            decode: (value: unknown[]): Set<unknown> => new Set(value),
+        });
+
+        this.register<bigint>('BigInt', {
+            test  : (value: unknown): boolean => typeof value === 'bigint',
+            encode: (value: bigint): string => value.toString(),
+            decode: (value: string): bigint => BigInt(value),
+        });
+    }
+
+    /**
+     * Register the codec of the custom type, taking precedence over the previously registered ones.
+     *
+     * @param { string } name Name of the type, stored alongside the encoded value.
+     * @param { CookieCodec<T> } codec Codec used to encode and decode values of the type.
+     *
+     * @returns { this }
+     */
+    register<T>(name: string, codec: CookieCodec<T>): this {
+        if (name === 'Object') {
+            throw new Error('The "Object" type name is reserved.');
+        }
+
+        this.#codecs.delete(name);
+        this.#codecs.set(name, codec);
+
+        return this;
+    }
+
+    /**
+     * Store the value as prefixed JSON, tagging the values which are not supported by JSON with their type.
+     *
+     * @param { * } value Value to be stored in cookie.
+     *
+     * @returns { string }
+     */
+    stringify(value: any): string {
+        if (value === null || value === undefined) {
+            return '';
+        }
+
+        try {
+            return TaggedCookieSerializer.prefix + JSON.stringify(this.#encode(value));
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Parse the stored value, reading values not written by the serializer the same way as the default serializer.
+     *
+     * @param { string } value Stored cookie value.
+     *
+     * @returns { * }
+     */
+    parse(value: string): any {
+        if (!value.startsWith(TaggedCookieSerializer.prefix)) {
+            return parse(value);
+        }
+
+        try {
+            return this.#decode(JSON.parse(value.slice(TaggedCookieSerializer.prefix.length)));
+        } catch {
+            return parse(value);
+        }
+    }
+
+    /**
+     * Replace the values which are not supported by JSON with their tagged representation.
+     *
+     * @param { * } value Value to encode.
+     *
+     * @returns { * }
+     */
+    #encode(value: any): any {
+        const codecs: [string, CookieCodec<any>][] = [...this.#codecs.entries()].reverse();
+
+        for (const [name, codec] of codecs) {
+            if (codec.test(value)) {
+                return { $: name, v: this.#encode(codec.encode(value)) };
+            }
+        }
+
+        if (Array.isArray(value)) {
+            return value.map((item: any): any => this.#encode(item));
+        }
+
+        if (typeof value !== 'object' || value === null) {
+            return value;
+        }
+
+        if (typeof value.toJSON === 'function') {
+            return this.#encode(value.toJSON());
+        }
+
+        const object: Record<string, any> = this.#map(value, (item: any): any => this.#encode(item));
+
+        return '$' in object ? { $: 'Object', v: object } : object;
+    }
+
+    /**
+     * Restore the values from their tagged representation.
+     *
+     * @param { * } value Value to decode.
+     *
+     * @returns { * }
+     */
+    #decode(value: any): any {
+        if (Array.isArray(value)) {
+            return value.map((item: any): any => this.#decode(item));
+        }
+
+        if (typeof value !== 'object' || value === null) {
+            return value;
+        }
+
+        if (value.$ === 'Object') {
+            return this.#map(value.v, (item: any): any => this.#decode(item));
+        }
+
+        const codec: CookieCodec<any> | undefined = typeof value.$ === 'string' ? this.#codecs.get(value.$) : undefined;
+
+        if (codec !== undefined) {
+            return codec.decode(this.#decode(value.v));
+        }
+
+        return this.#map(value, (item: any): any => this.#decode(item));
+    }
+
+    /**
+     * Map the values of the object's own properties.
+     *
+     * @param { Record<string, *> } object Object to map.
+     * @param { (value: *) => * } callback Function called with each value.
+     *
+     * @returns { Record<string, *> }
+     */
+    #map(object: Record<string, any>, callback: (value: any) => any): Record<string, any> {
+        return Object.fromEntries(Object.entries(object).map(([key, value]: [string, any]): [string, any] => [key, callback(value)]));
+    }
+}
@@ -0,0 +1,198 @@
+import type { Cookie, CookieAttributes, CookieRemoveAttributes } from './main';
+import { fromBase64Url, subtle, toBase64Url } from './crypto';
+import { parse, stringify } from './serializer';
+
+export type SignedCookieVerification = {
+    valid: boolean;
+    value: any;
+    reason: 'missing' | 'unsigned' | 'invalid' | null;
+};
+
+export class SignedCookie {
+    /**
+     * Cookie instance used to read and write signed values.
+     *
+     * @type { Cookie }
+     */
+    #cookie: Cookie;
+
+    /**
+     * Secrets used to sign and verify values, the first one being used for signing.
+     *
+     * @type { string[] }
+     */
+    #secrets: string[];
+
+    /**
+     * Imported HMAC keys, cached by secret.
+     *
+     * @type { Map<string, Promise<CryptoKey>> }
+     */
+    #keys: Map<string, Promise<CryptoKey>> = new Map;
+
+    /**
+     * Create a new Signed Cookie instance.
+     *
+     * @param { Cookie } cookie Cookie instance used to read and write signed values.
+     * @param { string | string[] } secrets Secret or list of secrets, ordered from the newest to the oldest.
+     */
+    constructor(cookie: Cookie, secrets: string | string[]) {
+        this.#cookie = cookie;
+        this.#secrets = Array.isArray(secrets) ? secrets : [secrets];
+
+        if (this.#secrets.length === 0) {
+            throw new Error('At least one secret must be provided to sign cookies.');
+        }
+    }
+
+    /**
+     * Sign the value and set the key to the Cookie.
+     *
+     * @param { string } key String containing the name of the key you want to create.
+     * @param { * } value Value you want to give the key you are creating.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { Promise<string> }
+     */
+    async set(key: string, value: any, attributes: CookieAttributes = {}): Promise<string> {
+        const payload: string = stringify(value);
+        const signature: string = await this.#sign(this.#secrets[0] as string, key, payload);
+
+        return this.#cookie.set(key, `${signature}.${payload}`, attributes);
+    }
+
+    /**
+     * Get the key from the Cookie, returning the fallback if the signature cannot be verified.
+     *
+     * @param { string } key String containing the name of the key you want to get.
+     * @param { * } fallback Value or function returning the value used if the key is missing or tampered with.
+     *
+     * @returns { Promise<*> }
+     */
+    async get(key: string, fallback: any = null): Promise<any> {
+        const verification: SignedCookieVerification = await this.verify(key);
+
+        if (!verification.valid) {
+            return fallback instanceof Function ? fallback() : fallback ?? null;
+        }
+
+        return verification.value;
+    }
+
+    /**
+     * Verify the signature of the key, reporting why the verification failed.
+     *
+     * @param { string } key String containing the name of the key you want to verify.
+     *
+     * @returns { Promise<SignedCookieVerification> }
+     */
+    async verify(key: string): Promise<SignedCookieVerification> {
+        const cookie: any = this.#cookie.get(key);
+
+        if (cookie === null) {
+            return { valid: false, value: null, reason: 'missing' };
+        }
+
+        const separator: number = typeof cookie === 'string' ? cookie.indexOf('.') : -1;
+
+        if (separator === -1) {
+            return { valid: false, value: null, reason: 'unsigned' };
+        }
+
+        const signature: string = cookie.slice(0, separator);
+        const payload: string = cookie.slice(separator + 1);
+
+        for (const secret of this.#secrets) {
+            if (await this.#verify(secret, key, payload, signature)) {
+                return { valid: true, value: parse(payload), reason: null };
+            }
+        }
+
+        return { valid: false, value: null, reason: 'invalid' };
+    }
+
+    /**
+     * Determine if the key exists in the Cookie and has a valid signature.
+     *
+     * @param { string } key String containing the name of the key you want to check against.
+     *
+     * @returns { Promise<boolean> }
+     */
+    async has(key: string): Promise<boolean> {
+        return (await this.verify(key)).valid;
+    }
+
+    /**
+     * Removes a key from the cookie.
+     *
+     * @param { string } key The name of the cookie key to remove.
+     * @param { CookieRemoveAttributes } attributes Attributes the cookie was set with.
+     *
+     * @returns { boolean } Whether the key is gone.
+     */
+    remove(key: string, attributes: CookieRemoveAttributes = {}): boolean {
+        return this.#cookie.remove(key, attributes);
+    }
+
+    /**
+     * Sign the key and payload with the given secret.
+     *
+     * @param { string } secret Secret used to sign.
+     * @param { string } key Name of the key.
+     * @param { string } payload Serialized value.
+     *
+     * @returns { Promise<string> }
+     */
+    async #sign(secret: string, key: string, payload: string): Promise<string> {
+        const signature: ArrayBuffer = await subtle().sign('HMAC', await this.#key(secret), this.#data(key, payload));
+
+        return toBase64Url(signature);
+    }
+
+    /**
+     * Verify the signature of the key and payload with the given secret.
+     *
+     * @param { string } secret Secret used to verify.
+     * @param { string } key Name of the key.
+     * @param { string } payload Serialized value.
+     * @param { string } signature Base64url encoded signature.
+     *
+     * @returns { Promise<boolean> }
+     */
+    async #verify(secret: string, key: string, payload: string, signature: string): Promise<boolean> {
+        try {
+            return await subtle().verify('HMAC', await this.#key(secret), fromBase64Url(signature), this.#data(key, payload));
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Import the secret as an HMAC key.
+     *
+     * @param { string } secret Secret to import.
+     *
+     * @returns { Promise<CryptoKey> }
+     */
+    #key(secret: string): Promise<CryptoKey> {
+        if (!this.#keys.has(secret)) {
+            const data: Uint8Array = new TextEncoder().encode(secret);
+
+            this.#keys.set(secret, subtle().importKey('raw', data, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']));
+        }
+
+        return this.#keys.get(secret) as Promise<CryptoKey>;
+    }
+
+    /**
+     * Get the signed data, binding the payload to the name of the key.
+     *
+     * @param { string } key Name of the key.
+     * @param { string } payload Serialized value.
+     *
+     * @returns { Uint8Array }
+     */
+    #data(key: string, payload: string): Uint8Array {
+        return new TextEncoder().encode(`${key}=${payload}`);
+    }
+}
@@ -0,0 +1,179 @@
+import type { Cookie, CookieAttributes, CookieChangeEvent } from './main';
+
+export class CookieValueStore<T> {
+    /**
+     * Cookie instance used to read, write and watch the value.
+     *
+     * @type { Cookie }
+     */
+    #cookie: Cookie;
+
+    /**
+     * Name of the key.
+     *
+     * @type { string }
+     */
+    #key: string;
+
+    /**
+     * The fallback value in case the key does not exist.
+     *
+     * @type { T | (() => T) }
+     */
+    #fallback: T | (() => T);
+
+    /**
+     * List of subscribers.
+     *
+     * @type { Set<(value: T) => void> }
+     */
+    #subscribers: Set<(value: T) => void> = new Set;
+
+    /**
+     * Function reading the raw value of the cookie holding the key.
+     *
+     * @type { () => string | null }
+     */
+    #raw: () => string | null;
+
+    /**
+     * Last read raw value and the value parsed from it, or null if the value was not read yet.
+     *
+     * @type { { raw: string | null, value: T } | null }
+     */
+    #snapshot: { raw: string | null, value: T } | null = null;
+
+    /**
+     * Stops watching the key.
+     *
+     * @type { (() => void) | null }
+     */
+    #stop: (() => void) | null = null;
+
+    /**
+     * Create a new Cookie Value Store instance.
+     *
+     * @param { Cookie } cookie Cookie instance used to read, write and watch the value.
+     * @param { string } key Name of the key.
+     * @param { T | (() => T) } fallback The fallback value in case the key does not exist.
+     * @param { () => string | null } raw Function reading the raw value of the cookie holding the key.
+     */
+    constructor(cookie: Cookie, key: string, fallback: T | (() => T), raw: () => string | null) {
+        this.#cookie = cookie;
+        this.#key = key;
+        this.#fallback = fallback;
+        this.#raw = raw;
+
+        // Bound, so that the methods can be passed around, e.g. to React's useSyncExternalStore hook.
+        this.subscribe = this.subscribe.bind(this);
+        this.getSnapshot = this.getSnapshot.bind(this);
+    }
+
+    /**
+     * Get the name of the key.
+     *
+     * @returns { string }
+     */
+    get key(): string {
+        return this.#key;
+    }
+
+    /**
+     * Register the subscriber, calling it with the current value and on every change of the key.
+     *
+     * Changes of the cookie holding a dot-path key are reported under the key of that cookie, so the changes of every
+     * prefix of the key are watched, and the subscribers are only called if the snapshot changed.
+     *
+     * @param { (value: T) => void } subscriber Function called with the value.
+     *
+     * @returns { () => void } Function removing the subscriber.
+     */
+    subscribe(subscriber: (value: T) => void): () => void {
+        if (this.#stop === null) {
+            this.#stop = this.#cookie.on('change', ({ key }: CookieChangeEvent): void => {
+                if (key !== this.#key && !this.#key.startsWith(`${key}.`)) {
+                    return;
+                }
+
+                const previous: { raw: string | null, value: T } | null = this.#snapshot;
+                const value: T = this.getSnapshot();
+
+                if (previous !== null && previous.value === value) {
+                    return;
+                }
+
+                [...this.#subscribers].forEach((subscriber: (value: T) => void): void => subscriber(value));
+            });
+        }
+
+        this.#subscribers.add(subscriber);
+
+        subscriber(this.getSnapshot());
+
+        return (): void => {
+            this.#subscribers.delete(subscriber);
+
+            if (this.#subscribers.size === 0 && this.#stop !== null) {
+                this.#stop();
+                this.#stop = null;
+            }
+        };
+    }
+
+    /**
+     * Get the current value, which stays the same as long as the raw cookie value does not change.
+     *
+     * @returns { T }
+     */
+    getSnapshot(): T {
+        const raw: string | null = this.#raw();
+
+        if (this.#snapshot === null || this.#snapshot.raw !== raw) {
+            this.#snapshot = { raw, value: this.#read() };
+        }
+
+        return this.#snapshot.value;
+    }
+
+    /**
+     * Get the current value.
+     *
+     * @returns { T }
+     */
+    get(): T {
+        return this.getSnapshot();
+    }
+
+    /**
+     * Set the value to the Cookie, notifying the subscribers.
+     *
+     * @param { T } value Value you want to give the key.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { string }
+     */
+    set(value: T, attributes: CookieAttributes = {}): string {
+        return this.#cookie.set(this.#key, value, attributes);
+    }
+
+    /**
+     * Set the value returned by the updater to the Cookie, notifying the subscribers.
+     *
+     * @param { (value: T) => T } updater Function called with the current value, returning the new one.
+     * @param { CookieAttributes } attributes Cookie configuration options.
+     *
+     * @returns { string }
+     */
+    update(updater: (value: T) => T, attributes: CookieAttributes = {}): string {
+        return this.set(updater(this.#read()), attributes);
+    }
+
+    /**
+     * Read the value from the Cookie.
+     *
+     * @returns { T }
+     */
+    #read(): T {
+        return this.#cookie.get(this.#key, this.#fallback);
+    }
+}
@@ -0,0 +1,670 @@
+export type EmulatedCookie = {
+    name: string;
+    value: string;
+    domain: string;
+    hostOnly: boolean;
+    path: string;
+    expires: number | null;
+    secure: boolean;
+    sameSite: 'Strict' | 'Lax' | 'None' | null;
+    partitioned: boolean;
+    priority: 'Low' | 'Medium' | 'High' | null;
+    created: number;
+};
+
+export type DocumentCookieOptions = {
+    url?: string;
+    now?: number | null;
+    crossSite?: boolean;
+    size?: number;
+    count?: number;
+};
+
+export type CookieExpectation = {
+    value?: string;
+    path?: string;
+    domain?: string;
+    expires?: Date | number | null;
+    secure?: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None' | null;
+    partitioned?: boolean;
+    priority?: 'Low' | 'Medium' | 'High' | null;
+};
+
+export type MatcherResult = {
+    pass: boolean;
+    message: () => string;
+};
+
+declare global {
+    namespace jest {
+        interface Matchers<R> {
+            toHaveCookie(key: string, value?: any, encode?: boolean): R;
+            toHaveCookieWith(key: string, expected: CookieExpectation): R;
+        }
+    }
+}
+
+export class FakeLocation {
+    /**
+     * URL of the location.
+     *
+     * @type { URL }
+     */
+    #url: URL;
+
+    /**
+     * Create a new Fake Location instance.
+     *
+     * @param { string } url URL of the location.
+     */
+    constructor(url: string = 'https://example.com/') {
+        this.#url = new URL(url);
+    }
+
+    /**
+     * Get the entire URL.
+     *
+     * @returns { string }
+     */
+    get href(): string {
+        return this.#url.href;
+    }
+
+    /**
+     * Get the protocol scheme of the URL, including the final ':'.
+     *
+     * @returns { string }
+     */
+    get protocol(): string {
+        return this.#url.protocol;
+    }
+
+    /**
+     * Get the host, that is the hostname, a ':', and the port of the URL.
+     *
+     * @returns { string }
+     */
+    get host(): string {
+        return this.#url.host;
+    }
+
+    /**
+     * Get the domain of the URL.
+     *
+     * @returns { string }
+     */
+    get hostname(): string {
+        return this.#url.hostname;
+    }
+
+    /**
+     * Get the port number of the URL.
+     *
+     * @returns { string }
+     */
+    get port(): string {
+        return this.#url.port;
+    }
+
+    /**
+     * Get the path of the URL, not including the query string or fragment.
+     *
+     * @returns { string }
+     */
+    get pathname(): string {
+        return this.#url.pathname;
+    }
+
+    /**
+     * Get the query string of the URL, including the leading '?'.
+     *
+     * @returns { string }
+     */
+    get search(): string {
+        return this.#url.search;
+    }
+
+    /**
+     * Get the fragment identifier of the URL, including the leading '#'.
+     *
+     * @returns { string }
+     */
+    get hash(): string {
+        return this.#url.hash;
+    }
+
+    /**
+     * Get the origin of the URL.
+     *
+     * @returns { string }
+     */
+    get origin(): string {
+        return this.#url.origin;
+    }
+
+    /**
+     * Navigate to the URL, resolved against the current one.
+     *
+     * @param { string } url URL to navigate to.
+     */
+    assign(url: string): void {
+        this.#url = new URL(url, this.#url);
+    }
+
+    /**
+     * Navigate to the URL, resolved against the current one.
+     *
+     * @param { string } url URL to navigate to.
+     */
+    replace(url: string): void {
+        this.assign(url);
+    }
+
+    /**
+     * Reload the current URL, which does nothing.
+     */
+    reload(): void {
+        return;
+    }
+
+    /**
+     * Get the entire URL.
+     *
+     * @returns { string }
+     */
+    toString(): string {
+        return this.href;
+    }
+}
+
+export class DocumentCookie {
+    /**
+     * Location of the document, used for the domain, path and Secure matching.
+     *
+     * @type { FakeLocation }
+     */
+    readonly location: FakeLocation;
+
+    /**
+     * Whether the document is embedded in a cross-site context, where only SameSite=None cookies are available.
+     *
+     * @type { boolean }
+     */
+    crossSite: boolean;
+
+    /**
+     * List of all stored cookies, including the ones not visible at the current location.
+     *
+     * @type { EmulatedCookie[] }
+     */
+    #cookies: EmulatedCookie[] = [];
+
+    /**
+     * Frozen time of the clock in milliseconds, or null if the clock follows the system time.
+     *
+     * @type { number | null }
+     */
+    #now: number | null;
+
+    /**
+     * Milliseconds the clock was advanced by.
+     *
+     * @type { number }
+     */
+    #offset: number = 0;
+
+    /**
+     * Maximum size of the cookie name and value in bytes.
+     *
+     * @type { number }
+     */
+    #size: number;
+
+    /**
+     * Maximum number of cookies per domain.
+     *
+     * @type { number }
+     */
+    #count: number;
+
+    /**
+     * Globals replaced by the install method, restored by the uninstall method.
+     *
+     * @type { { document: unknown, location: unknown } | null }
+     */
+    #globals: { document: unknown, location: unknown } | null = null;
+
+    /**
+     * Create a new Document Cookie instance, emulating the browser's cookie jar.
+     *
+     * @param { DocumentCookieOptions } options Emulator configuration options.
+     */
+    constructor(options: DocumentCookieOptions = {}) {
+        const { url = 'https://example.com/', now = null, crossSite = false, size = 4096, count = 180 } = options;
+
+        this.location = new FakeLocation(url);
+        this.crossSite = crossSite;
+        this.#now = now;
+        this.#size = size;
+        this.#count = count;
+    }
+
+    /**
+     * Create a new Document Cookie instance and expose it, along with its location, as the global document and location.
+     *
+     * @param { DocumentCookieOptions } options Emulator configuration options.
+     *
+     * @returns { DocumentCookie }
+     */
+    static install(options: DocumentCookieOptions = {}): DocumentCookie {
+        const emulator: DocumentCookie = new DocumentCookie(options);
+        const globals: { document?: unknown, location?: unknown } = globalThis as { document?: unknown, location?: unknown };
+
+        emulator.#globals = { document: globals.document, location: globals.location };
+
+        globals.document = emulator;
+        globals.location = emulator.location;
+
+        return emulator;
+    }
+
+    /**
+     * Restore the global document and location replaced by the install method.
+     */
+    uninstall(): void {
+        if (this.#globals === null) {
+            return;
+        }
+
+        const globals: { document?: unknown, location?: unknown } = globalThis as { document?: unknown, location?: unknown };
+
+        globals.document = this.#globals.document;
+        globals.location = this.#globals.location;
+
+        this.#globals = null;
+    }
+
+    /**
+     * Get the cookies visible at the current location, ordered the way browsers do.
+     *
+     * @returns { string }
+     */
+    get cookie(): string {
+        return this.visible()
+            .map((cookie: EmulatedCookie): string => cookie.name === '' ? cookie.value : `${cookie.name}=${cookie.value}`)
+            .join('; ');
+    }
+
+    /**
+     * Store the serialized cookie, ignoring it whenever a browser would.
+     *
+     * @param { string } cookie Serialized cookie string.
+     */
+    set cookie(cookie: string) {
+        const parsed: EmulatedCookie | null = this.#parse(cookie);
+
+        if (parsed === null) {
+            return;
+        }
+
+        const index: number = this.#cookies.findIndex((existing: EmulatedCookie): boolean => {
+            return existing.name === parsed.name && existing.domain === parsed.domain && existing.path === parsed.path;
+        });
+
+        const existing: EmulatedCookie | undefined = this.#cookies[index];
+
+        if (existing !== undefined) {
+            parsed.created = existing.created;
+
+            this.#cookies.splice(index, 1);
+        }
+
+        if (parsed.expires !== null && parsed.expires <= this.now()) {
+            return;
+        }
+
+        this.#cookies.push(parsed);
+        this.#evict(parsed.domain);
+    }
+
+    /**
+     * Get the current time of the clock in milliseconds.
+     *
+     * @returns { number }
+     */
+    now(): number {
+        return (this.#now ?? Date.now()) + this.#offset;
+    }
+
+    /**
+     * Advance the clock, expiring the cookies past their expiry.
+     *
+     * @param { number } milliseconds Milliseconds to advance the clock by.
+     */
+    advance(milliseconds: number): void {
+        this.#offset += milliseconds;
+    }
+
+    /**
+     * Get all stored cookies which are not expired, including the ones not visible at the current location.
+     *
+     * @returns { EmulatedCookie[] }
+     */
+    all(): EmulatedCookie[] {
+        this.#cookies = this.#cookies.filter((cookie: EmulatedCookie): boolean => cookie.expires === null || cookie.expires > this.now());
+
+        return this.#cookies.map((cookie: EmulatedCookie): EmulatedCookie => ({ ...cookie }));
+    }
+
+    /**
+     * Get the cookies visible at the current location, ordered by the path length and the creation time.
+     *
+     * @returns { EmulatedCookie[] }
+     */
+    visible(): EmulatedCookie[] {
+        return this.all()
+            .filter((cookie: EmulatedCookie): boolean => this.#matches(cookie))
+            .sort((a: EmulatedCookie, b: EmulatedCookie): number => b.path.length - a.path.length || a.created - b.created);
+    }
+
+    /**
+     * Remove all stored cookies.
+     */
+    reset(): void {
+        this.#cookies = [];
+    }
+
+    /**
+     * Parse the serialized cookie, returning null if a browser would ignore it.
+     *
+     * @param { string } cookie Serialized cookie string.
+     *
+     * @returns { EmulatedCookie | null }
+     */
+    #parse(cookie: string): EmulatedCookie | null {
+        const [pair = '', ...attributes] = cookie.split(';');
+        const index: number = pair.indexOf('=');
+        const name: string = index === -1 ? '' : pair.slice(0, index).trim();
+        const value: string = (index === -1 ? pair : pair.slice(index + 1)).trim();
+        const host: string = this.location.hostname.toLowerCase();
+
+        if (name === '' && value === '' || this.#bytes(name + value) > this.#size) {
+            return null;
+        }
+
+        const parsed: EmulatedCookie = {
+            name,
+            value,
+            domain     : host,
+            hostOnly   : true,
+            path       : this.#path(),
+            expires    : null,
+            secure     : false,
+            sameSite   : null,
+            partitioned: false,
+            priority   : null,
+            created    : this.now(),
+        };
+
+        let domain: string | null = null as string | null;
+        let maxAge: number | null = null as number | null;
+        let httpOnly: boolean = false;
+
+        attributes.forEach((attribute: string): void => {
+            const separator: number = attribute.indexOf('=');
+            const key: string = (separator === -1 ? attribute : attribute.slice(0, separator)).trim().toLowerCase();
+            const value: string = separator === -1 ? '' : attribute.slice(separator + 1).trim();
+
+            switch (key) {
+                case 'expires': {
+                    const expires: number = Date.parse(value);
+
+                    parsed.expires = isNaN(expires) ? parsed.expires : expires;
+                    break;
+                }
+                case 'max-age':
+                    maxAge = /^-?\d+$/.test(value) ? Number(value) : maxAge;
+                    break;
+                case 'domain':
+                    domain = value.replace(/^\./, '').toLowerCase();
+                    break;
+                case 'path':
+                    parsed.path = value.startsWith('/') ? value : this.#path();
+                    break;
+                case 'secure':
+                    parsed.secure = true;
+                    break;
+                case 'httponly':
+                    httpOnly = true;
+                    break;
+                case 'samesite': {
+                    const sameSite: string = value.toLowerCase();
+
+                    parsed.sameSite = sameSite === 'strict' ? 'Strict' : sameSite === 'none' ? 'None' : 'Lax';
+                    break;
+                }
+                case 'partitioned':
+                    parsed.partitioned = true;
+                    break;
+                case 'priority': {
+                    const priority: string = value.toLowerCase();
+
+                    parsed.priority = priority === 'low' ? 'Low' : priority === 'high' ? 'High' : 'Medium';
+                    break;
+                }
+            }
+        });
+
+        if (maxAge !== null) {
+            parsed.expires = this.now() + maxAge * 1000;
+        }
+
+        if (domain !== null && domain !== '') {
+            if (!this.#domainMatches(host, domain) || !domain.includes('.') && domain !== host) {
+                return null;
+            }
+
+            parsed.domain = domain;
+            parsed.hostOnly = false;
+        }
+
+        if (httpOnly || parsed.secure && !this.#secure()) {
+            return null;
+        }
+
+        if ((parsed.sameSite === 'None' || parsed.partitioned) && !parsed.secure) {
+            return null;
+        }
+
+        if (this.crossSite && parsed.sameSite !== 'None') {
+            return null;
+        }
+
+        if (/^__Secure-/i.test(name) && !parsed.secure) {
+            return null;
+        }
+
+        if (/^__Host-/i.test(name) && (!parsed.secure || !parsed.hostOnly || parsed.path !== '/')) {
+            return null;
+        }
+
+        const overwritesSecure: boolean = !parsed.secure && !this.#secure() && this.#cookies.some((cookie: EmulatedCookie): boolean => {
+            return cookie.secure && cookie.name === name && this.#domainMatches(cookie.domain, parsed.domain) && this.#pathMatches(parsed.path, cookie.path);
+        });
+
+        return overwritesSecure ? null : parsed;
+    }
+
+    /**
+     * Determine if the cookie is visible at the current location.
+     *
+     * @param { EmulatedCookie } cookie Stored cookie.
+     *
+     * @returns { boolean }
+     */
+    #matches(cookie: EmulatedCookie): boolean {
+        const host: string = this.location.hostname.toLowerCase();
+
+        if (cookie.hostOnly ? cookie.domain !== host : !this.#domainMatches(host, cookie.domain)) {
+            return false;
+        }
+
+        if (!this.#pathMatches(this.location.pathname, cookie.path)) {
+            return false;
+        }
+
+        if (cookie.secure && !this.#secure()) {
+            return false;
+        }
+
+        return !this.crossSite || cookie.sameSite === 'None';
+    }
+
+    /**
+     * Determine if the host matches the domain, as defined by RFC 6265.
+     *
+     * @param { string } host Host name.
+     * @param { string } domain Domain of the cookie.
+     *
+     * @returns { boolean }
+     */
+    #domainMatches(host: string, domain: string): boolean {
+        return host === domain || host.endsWith(`.${domain}`) && !/^[\d.]+$/.test(host);
+    }
+
+    /**
+     * Determine if the request path matches the cookie path, as defined by RFC 6265.
+     *
+     * @param { string } path Request path.
+     * @param { string } cookie Path of the cookie.
+     *
+     * @returns { boolean }
+     */
+    #pathMatches(path: string, cookie: string): boolean {
+        if (path === cookie) {
+            return true;
+        }
+
+        return path.startsWith(cookie) && (cookie.endsWith('/') || path[cookie.length] === '/');
+    }
+
+    /**
+     * Get the default path of the cookies set at the current location, as defined by RFC 6265.
+     *
+     * @returns { string }
+     */
+    #path(): string {
+        const path: string = this.location.pathname;
+
+        if (!path.startsWith('/') || path.lastIndexOf('/') === 0) {
+            return '/';
+        }
+
+        return path.slice(0, path.lastIndexOf('/'));
+    }
+
+    /**
+     * Determine if the current location is a secure context.
+     *
+     * @returns { boolean }
+     */
+    #secure(): boolean {
+        return this.location.protocol === 'https:' || ['localhost', '127.0.0.1'].includes(this.location.hostname);
+    }
+
+    /**
+     * Remove the oldest cookies of the domain exceeding the limit.
+     *
+     * @param { string } domain Domain of the cookies.
+     */
+    #evict(domain: string): void {
+        const cookies: EmulatedCookie[] = this.#cookies
+            .filter((cookie: EmulatedCookie): boolean => cookie.domain === domain)
+            .sort((a: EmulatedCookie, b: EmulatedCookie): number => a.created - b.created);
+
+        const evicted: EmulatedCookie[] = cookies.slice(0, Math.max(0, cookies.length - this.#count));
+
+        this.#cookies = this.#cookies.filter((cookie: EmulatedCookie): boolean => !evicted.includes(cookie));
+    }
+
+    /**
+     * Get the size of the string in bytes.
+     *
+     * @param { string } value String to measure.
+     *
+     * @returns { number }
+     */
+    #bytes(value: string): number {
+        return new TextEncoder().encode(value).length;
+    }
+}
+
+/**
+ * Assert the cookie string, or the cookies visible in the emulated document, contain the cookie.
+ *
+ * Objects are compared in their JSON form, and both the name and the value are URI encoded first if requested.
+ *
+ * @param { string | DocumentCookie } received Cookie string or emulated document.
+ * @param { string } key Name of the cookie.
+ * @param { * } value Value of the cookie, any value if omitted.
+ * @param { boolean } encode Whether to URI encode the name and the value.
+ *
+ * @returns { MatcherResult }
+ */
+export function toHaveCookie(received: string | DocumentCookie, key: string, value?: any, encode: boolean = false): MatcherResult {
+    const raw: string | null = value === undefined || value === null ? null : typeof value === 'object' ? JSON.stringify(value) : value.toString();
+    const name: string = encode ? encodeURIComponent(key) : key;
+    const content: string | null = encode && raw !== null ? encodeURIComponent(raw) : raw;
+    const cookies: string[] = (typeof received === 'string' ? received : received.cookie).split(/;\s*/);
+    const pass: boolean = cookies.some((cookie: string): boolean => content === null ? cookie.split('=')[0] === name : cookie === `${name}=${content}`);
+    const expected: string = content === null ? name : `${name}=${content}`;
+
+    return {
+        pass,
+        message: (): string => pass
+            ? `Expected the cookies not to contain "${expected}".`
+            : `Expected the cookies to contain "${expected}".\nReceived: ${typeof received === 'string' ? received : received.cookie}`,
+    };
+}
+
+/**
+ * Assert the emulated document stores the cookie with the expected value and attributes.
+ *
+ * Expiry is compared with a precision of one second, as the "expires" attribute is.
+ *
+ * @param { DocumentCookie } received Emulated document.
+ * @param { string } key Name of the cookie.
+ * @param { CookieExpectation } expected Expected value and attributes of the cookie.
+ *
+ * @returns { MatcherResult }
+ */
+export function toHaveCookieWith(received: DocumentCookie, key: string, expected: CookieExpectation): MatcherResult {
+    const cookies: EmulatedCookie[] = received.all().filter((cookie: EmulatedCookie): boolean => cookie.name === key);
+    const seconds: (time: Date | number | null) => number | null = (time: Date | number | null): number | null => {
+        return time === null ? null : Math.floor(new Date(time).getTime() / 1000);
+    };
+
+    const pass: boolean = cookies.some((cookie: EmulatedCookie): boolean => {
+        return (expected.value === undefined || cookie.value === expected.value)
+            && (expected.path === undefined || cookie.path === expected.path)
+            && (expected.domain === undefined || cookie.domain === expected.domain.replace(/^\./, '').toLowerCase())
+            && (expected.expires === undefined || seconds(cookie.expires) === seconds(expected.expires))
+            && (expected.secure === undefined || cookie.secure === expected.secure)
+            && (expected.sameSite === undefined || cookie.sameSite === expected.sameSite)
+            && (expected.partitioned === undefined || cookie.partitioned === expected.partitioned)
+            && (expected.priority === undefined || cookie.priority === expected.priority);
+    });
+
+    return {
+        pass,
+        message: (): string => pass
+            ? `Expected no cookie "${key}" with ${JSON.stringify(expected)}.`
+            : `Expected a cookie "${key}" with ${JSON.stringify(expected)}.\nReceived: ${JSON.stringify(cookies)}`,
+    };
+}
+
+export const matchers = {
+    toHaveCookie,
+    toHaveCookieWith,
+};
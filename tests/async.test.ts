@@ -0,0 +1,225 @@
+import { AsyncCookie, AsyncCookieItem, CookieStore, CookieStoreItem, MemoryCookieDriver } from '../src/main';
+
+class FakeCookieStore implements CookieStore {
+    /**
+     * List of all stored cookies.
+     */
+    cookies: CookieStoreItem[] = [];
+
+    /**
+     * Get the cookie by name.
+     */
+    async get(name: string): Promise<CookieStoreItem | null> {
+        return this.cookies.find((cookie: CookieStoreItem): boolean => cookie.name === name) ?? null;
+    }
+
+    /**
+     * Get all cookies.
+     */
+    async getAll(): Promise<CookieStoreItem[]> {
+        return this.cookies;
+    }
+
+    /**
+     * Set a cookie.
+     */
+    async set(options: CookieStoreItem): Promise<void> {
+        await this.delete(options);
+
+        this.cookies.push({ secure: true, ...options });
+    }
+
+    /**
+     * Delete a cookie.
+     */
+    async delete(options: { name: string }): Promise<void> {
+        this.cookies = this.cookies.filter((cookie: CookieStoreItem): boolean => cookie.name !== options.name);
+    }
+
+    /**
+     * Register the change listener.
+     */
+    addEventListener(): void {
+        return;
+    }
+
+    /**
+     * Remove the change listener.
+     */
+    removeEventListener(): void {
+        return;
+    }
+}
+
+let store: FakeCookieStore;
+let cookie: AsyncCookie;
+
+beforeEach((): void => {
+    store = new FakeCookieStore;
+    cookie = AsyncCookie.create({ store });
+});
+
+describe('AsyncCookie.set', (): void => {
+    test('sets the key to the CookieStore', async (): Promise<void> => {
+        jest.useFakeTimers({ now: 0 });
+
+        await cookie.set('$key', { data: 'ć' }, { ttl: 60, path: '/admin', sameSite: 'Strict' });
+
+        expect(store.cookies).toEqual([{
+            name    : '$key',
+            value   : '{%22data%22:%22%C4%87%22}',
+            expires : 60 * 1000,
+            path    : '/admin',
+            domain  : null,
+            sameSite: 'strict',
+            secure  : true,
+        }]);
+
+        jest.useRealTimers();
+    });
+
+    test('sets the key with maxAge and partitioned attributes to the CookieStore', async (): Promise<void> => {
+        jest.useFakeTimers({ now: 0 });
+
+        await cookie.set('$key', '$value', { maxAge: 30, ttl: 60, secure: true, partitioned: true });
+
+        expect(store.cookies[0]?.expires).toBe(30 * 1000);
+        expect(store.cookies[0]?.partitioned).toBe(true);
+
+        jest.useRealTimers();
+    });
+
+    test('throws an error if httpOnly=true is set', async (): Promise<void> => {
+        await expect(cookie.set('$key', '$value', { httpOnly: true })).rejects.toThrow('The "httpOnly" attribute can only be set when using a server-side driver.');
+    });
+
+    test('throws an error if sameSite="None" is set without secure=true', async (): Promise<void> => {
+        await expect(cookie.set('$key', '$value', { sameSite: 'None' })).rejects.toThrow('The "secure" attribute must be set to "true" if "sameSite" is set to "None".');
+    });
+});
+
+describe('AsyncCookie.get', (): void => {
+    test('gets the key from the CookieStore', async (): Promise<void> => {
+        await cookie.set('$key', { data: 'ć' });
+
+        expect(await cookie.get('$key')).toEqual({ data: 'ć' });
+    });
+
+    test('returns fallback value if key does not exist', async (): Promise<void> => {
+        expect(await cookie.get('$key')).toBeNull();
+        expect(await cookie.get('$key', 'fallback')).toBe('fallback');
+        expect(await cookie.get('$key', (): string => 'fallback')).toBe('fallback');
+    });
+});
+
+describe('AsyncCookie.remember', (): void => {
+    test('executes callback and stores the result when key does not exist', async (): Promise<void> => {
+        const callback: jest.Mock = jest.fn(async (): Promise<string> => '$value');
+
+        expect(await cookie.remember('$key', callback)).toBe('$value');
+        expect(await cookie.remember('$key', callback)).toBe('$value');
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('AsyncCookie.all', (): void => {
+    test('returns all items with their metadata', async (): Promise<void> => {
+        await cookie.set('$key1', '$value1');
+        await cookie.set('$key2', 42, { path: '/admin' });
+
+        expect(await cookie.all()).toEqual<AsyncCookieItem[]>([
+            { key: '$key1', value: '$value1', expires: null, path: '/', domain: null, sameSite: undefined, secure: true },
+            { key: '$key2', value: 42, expires: null, path: '/admin', domain: null, sameSite: undefined, secure: true },
+        ]);
+    });
+});
+
+describe('AsyncCookie.remove', (): void => {
+    test('removes the key from the CookieStore', async (): Promise<void> => {
+        await cookie.set('$key', '$value');
+        await cookie.remove('$key');
+
+        expect(store.cookies).toEqual([]);
+        expect(await cookie.has('$key')).toBe(false);
+    });
+
+    test('removes every cookie of the key with its own path and domain', async (): Promise<void> => {
+        const remove: jest.SpyInstance = jest.spyOn(store, 'delete');
+
+        store.cookies.push({ name: '$key', value: '$value1', path: '/', domain: null });
+        store.cookies.push({ name: '$key', value: '$value2', path: '/admin', domain: 'example.com' });
+        store.cookies.push({ name: '$other', value: '$value3', path: '/', domain: null });
+
+        expect(await cookie.remove('$key', { everywhere: true })).toBe(true);
+        expect(remove.mock.calls).toEqual([
+            [{ name: '$key', path: '/', domain: null }],
+            [{ name: '$key', path: '/admin', domain: 'example.com' }],
+        ]);
+    });
+});
+
+describe('AsyncCookie.has', (): void => {
+    test('determines if the key exists in the CookieStore', async (): Promise<void> => {
+        await cookie.set('$key1', '$value');
+
+        expect(await cookie.has('$key1')).toBe(true);
+        expect(await cookie.has('$key2')).toBe(false);
+    });
+});
+
+describe('AsyncCookie.touch', (): void => {
+    test('updates the cookie expiration time', async (): Promise<void> => {
+        jest.useFakeTimers({ now: 0 });
+
+        await cookie.set('$key', '$value');
+        await cookie.touch('$key', 60);
+
+        expect(store.cookies[0]?.expires).toBe(60 * 1000);
+
+        jest.useRealTimers();
+    });
+
+    test('does not update expiration if item does not exist', async (): Promise<void> => {
+        await cookie.touch('$key', 60);
+
+        expect(store.cookies).toEqual([]);
+    });
+});
+
+describe('AsyncCookie fallback', (): void => {
+    beforeEach((): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        (global as any).document = {
+            get cookie(): string {
+                return driver.get();
+            },
+            set cookie(cookie: string) {
+                driver.set(cookie);
+            },
+        };
+    });
+
+    afterEach((): void => {
+        delete (global as any).document;
+    });
+
+    test('reads and writes document.cookie if the CookieStore is not available', async (): Promise<void> => {
+        const cookie: AsyncCookie = AsyncCookie.create({ store: null });
+
+        await cookie.set('$key1', '$value1');
+        await cookie.set('$key2', '$value2');
+        expect(await cookie.remove('$key2', { everywhere: true })).toBe(true);
+
+        expect(document.cookie).toBe('$key1=$value1');
+        expect(await cookie.get('$key1')).toBe('$value1');
+        expect(await cookie.all()).toEqual([{ key: '$key1', value: '$value1' }]);
+    });
+
+    test('uses document.cookie through the static methods if the CookieStore is not available', async (): Promise<void> => {
+        await AsyncCookie.set('$key', '$value');
+
+        expect(await AsyncCookie.get('$key')).toBe('$value');
+        expect(await AsyncCookie.has('$key')).toBe(true);
+    });
+});
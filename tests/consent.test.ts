@@ -0,0 +1,142 @@
+import { Cookie, CookieDefinition, DocumentCookieDriver, MemoryCookieDriver } from '../src/main';
+import { DocumentCookie, matchers } from '../src/testing';
+
+expect.extend(matchers);
+
+let driver: MemoryCookieDriver;
+let cookie: Cookie;
+
+beforeEach((): void => {
+    driver = new MemoryCookieDriver;
+    cookie = Cookie.create({ driver });
+});
+
+describe('Cookie.set with category', (): void => {
+    test('sets the key if consent to the category is granted', (): void => {
+        cookie.consent.grant('analytics');
+
+        expect(cookie.set('$key', '$value', { category: 'analytics' })).toBe('$key=$value');
+        expect(cookie.get('$key')).toBe('$value');
+    });
+
+    test('always sets the key of the "necessary" category', (): void => {
+        cookie.set('$key', '$value', { category: 'necessary' });
+
+        expect(cookie.get('$key')).toBe('$value');
+    });
+
+    test('blocks the key if consent to the category is not granted', (): void => {
+        expect(cookie.set('$key', '$value', { category: 'analytics' })).toBe('');
+        expect(cookie.has('$key')).toBe(false);
+    });
+
+    test('queues the key until consent to the category is granted', (): void => {
+        const queued: Cookie = Cookie.create({ driver, consent: { queue: true } });
+
+        queued.set('$key', '$value', { category: 'marketing' });
+
+        expect(queued.has('$key')).toBe(false);
+
+        queued.consent.grant('marketing');
+
+        expect(queued.get('$key')).toBe('$value');
+    });
+
+    test('discards the queued key once consent to the category is revoked', (): void => {
+        const queued: Cookie = Cookie.create({ driver, consent: { queue: true } });
+
+        queued.set('$key', '$value', { category: 'marketing' });
+        queued.consent.revoke('marketing');
+        queued.consent.grant('marketing');
+
+        expect(queued.has('$key')).toBe(false);
+    });
+
+    test('remembers the value without storing it if consent to the category is not granted', (): void => {
+        cookie.remember('$key', (): string => '$value', { category: 'functional' });
+
+        expect(cookie.has('$key')).toBe(false);
+    });
+
+    test('gates the defined key on the category', (): void => {
+        const theme: CookieDefinition<string> = cookie.define('theme', { default: 'light', category: 'functional' });
+
+        theme.set('dark');
+
+        expect(theme.get()).toBe('light');
+
+        cookie.consent.grant('functional');
+        theme.set('dark');
+
+        expect(theme.get()).toBe('dark');
+    });
+});
+
+describe('Cookie.consent', (): void => {
+    test('grants consent to the categories', (): void => {
+        cookie.consent.grant('analytics', 'custom');
+
+        expect(cookie.consent.granted('analytics')).toBe(true);
+        expect(cookie.consent.granted('custom')).toBe(true);
+        expect(cookie.consent.granted('marketing')).toBe(false);
+        expect(cookie.consent.categories()).toEqual(['necessary', 'analytics', 'custom']);
+    });
+
+    test('stores the consent state in the Cookie', (): void => {
+        cookie.consent.grant('analytics');
+
+        expect(Cookie.create({ driver }).consent.granted('analytics')).toBe(true);
+        expect(cookie.get('cookie_consent')).toEqual({ granted: ['analytics'], keys: {} });
+    });
+
+    test('stores the consent state under the configured key', (): void => {
+        const custom: Cookie = Cookie.create({ driver, consent: { key: 'consent' } });
+
+        custom.consent.grant('analytics');
+
+        expect(custom.get('consent')).toEqual({ granted: ['analytics'], keys: {} });
+    });
+
+    test('removes the keys of the category once consent is revoked', (): void => {
+        cookie.consent.grant('analytics', 'marketing');
+        cookie.set('_ga', '$value', { category: 'analytics', path: '/' });
+        cookie.namespace('app').set('_ads', '$value', { category: 'marketing' });
+        cookie.set('$key', '$value', { category: 'necessary' });
+
+        cookie.consent.revoke('analytics', 'marketing');
+
+        expect(cookie.has('_ga')).toBe(false);
+        expect(cookie.has('app._ads')).toBe(false);
+        expect(cookie.get('$key')).toBe('$value');
+        expect(cookie.consent.granted('analytics')).toBe(false);
+    });
+
+    test('throws an error if consent to the "necessary" category is revoked', (): void => {
+        expect((): void => cookie.consent.revoke('necessary')).toThrow('The "necessary" category cannot be revoked.');
+    });
+});
+
+describe('Cookie.consent in the browser', (): void => {
+    let document: DocumentCookie;
+
+    beforeEach((): void => {
+        document = DocumentCookie.install({ url: 'https://example.com/app/page' });
+    });
+
+    afterEach((): void => {
+        document.uninstall();
+    });
+
+    test('removes the keys written on the default path once consent is revoked', (): void => {
+        const cookie: Cookie = Cookie.create({ driver: new DocumentCookieDriver });
+
+        cookie.consent.grant('analytics');
+        cookie.set('ga', '1', { category: 'analytics' });
+
+        expect(document).toHaveCookieWith('ga', { path: '/app' });
+
+        cookie.consent.revoke('analytics');
+
+        expect(document).not.toHaveCookie('ga');
+    });
+});
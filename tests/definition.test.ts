@@ -0,0 +1,146 @@
+import { Cookie, CookieDefinition, CookieSchema, MemoryCookieDriver, schema } from '../src/main';
+
+type Preferences = {
+    theme: 'light' | 'dark';
+    size: number;
+};
+
+let driver: MemoryCookieDriver;
+let cookie: Cookie;
+
+const preferences: CookieSchema<Preferences> = schema.object({
+    theme: schema.enum('light', 'dark'),
+    size : schema.number(),
+});
+
+beforeEach((): void => {
+    driver = new MemoryCookieDriver;
+    cookie = Cookie.create({ driver });
+});
+
+describe('CookieDefinition.get', (): void => {
+    test('returns the validated value', (): void => {
+        const prefs: CookieDefinition<Preferences> = cookie.define('prefs', { schema: preferences, default: { theme: 'light', size: 14 } });
+
+        cookie.set('prefs', { theme: 'dark', size: '16' });
+
+        expect(prefs.get()).toEqual({ theme: 'dark', size: 16 });
+    });
+
+    test('returns the default value if the key does not exist', (): void => {
+        const prefs: CookieDefinition<Preferences> = cookie.define('prefs', { schema: preferences, default: { theme: 'light', size: 14 } });
+
+        expect(prefs.get()).toEqual({ theme: 'light', size: 14 });
+    });
+
+    test('returns the default value if the value does not match the schema', (): void => {
+        const prefs: CookieDefinition<Preferences> = cookie.define('prefs', { schema: preferences, default: (): Preferences => ({ theme: 'light', size: 14 }) });
+
+        cookie.set('prefs', { theme: 'blue', size: 16 });
+
+        expect(prefs.get()).toEqual({ theme: 'light', size: 14 });
+    });
+
+    test('returns the value without validation if no schema is defined', (): void => {
+        const zip: CookieDefinition<number> = cookie.define('zip', { default: 0 });
+
+        cookie.set('zip', '12345');
+
+        expect(zip.get()).toBe(12345);
+    });
+
+    test('supports any schema with a parse method', (): void => {
+        const parse: jest.Mock = jest.fn((value: unknown): string => String(value).toUpperCase());
+        const name: CookieDefinition<string> = cookie.define('name', { schema: { parse }, default: '' });
+
+        cookie.set('name', 'john');
+
+        expect(name.get()).toBe('JOHN');
+        expect(parse).toHaveBeenCalledWith('john');
+    });
+});
+
+describe('CookieDefinition.set', (): void => {
+    test('sets the value with the defined attributes', (): void => {
+        const prefs: CookieDefinition<Preferences> = cookie.define('prefs', {
+            schema    : preferences,
+            default   : { theme: 'light', size: 14 },
+            attributes: { path: '/', sameSite: 'Strict' },
+            ttl       : 60,
+        });
+
+        const header: string = prefs.set({ theme: 'dark', size: 16 });
+
+        expect(header).toMatch(/expires=[^;]+; path=\/; SameSite=Strict$/);
+        expect(cookie.get('prefs')).toEqual({ theme: 'dark', size: 16 });
+    });
+
+    test('throws an error if the value does not match the schema', (): void => {
+        const size: CookieDefinition<number> = cookie.define('size', { schema: schema.number(), default: 14 });
+
+        expect((): string => size.set('large' as unknown as number)).toThrow('Expected a number, received string.');
+        expect(driver.get()).toBe('');
+    });
+});
+
+describe('CookieDefinition.remove', (): void => {
+    test('removes the key from the Cookie', (): void => {
+        const size: CookieDefinition<number> = cookie.define('size', { schema: schema.number(), default: 14, attributes: { path: '/' } });
+
+        size.set(16);
+        size.remove();
+
+        expect(size.get()).toBe(14);
+        expect(driver.get()).toBe('');
+    });
+});
+
+describe('CookieDefinition sliding expiration', (): void => {
+    test('renews the key on read using the defined ttl', (): void => {
+        jest.useFakeTimers();
+
+        driver.set(`session=$value; expires=${new Date(Date.now() + 60 * 1000).toUTCString()}`);
+
+        const session: CookieDefinition<string> = Cookie.create({ driver }).define('session', { default: '', ttl: 60, sliding: true });
+
+        for (let second: number = 0; second < 120; second += 30) {
+            expect(session.get()).toBe('$value');
+
+            jest.advanceTimersByTime(30 * 1000);
+        }
+
+        jest.useRealTimers();
+    });
+});
+
+describe('CookieDefinition.touch', (): void => {
+    test('updates the expiration time using the defined ttl', (): void => {
+        jest.useFakeTimers();
+
+        const size: CookieDefinition<number> = cookie.define('size', { schema: schema.number(), default: 14, ttl: 60 });
+
+        size.set(16);
+
+        jest.advanceTimersByTime(30 * 1000);
+
+        size.touch();
+
+        jest.advanceTimersByTime(45 * 1000);
+
+        expect(size.get()).toBe(16);
+
+        jest.advanceTimersByTime(30 * 1000);
+
+        expect(size.get()).toBe(14);
+
+        jest.useRealTimers();
+    });
+
+    test('does not update expiration if item does not exist', (): void => {
+        const size: CookieDefinition<number> = cookie.define('size', { default: 14 });
+
+        size.touch(60);
+
+        expect(driver.get()).toBe('');
+    });
+});
@@ -0,0 +1,90 @@
+import { HeaderCookieDriver, MemoryCookieDriver } from '../src/drivers';
+import { toHaveCookie } from '../src/testing';
+
+expect.extend({
+    toHaveCookie,
+});
+
+describe('MemoryCookieDriver', (): void => {
+    test('stores written cookies', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        driver.set('$key1=$value1; path=/');
+        driver.set('$key2=$value2; path=/; Secure');
+
+        expect(driver.get()).toBe('$key1=$value1; $key2=$value2');
+    });
+
+    test('stores cookies without a value', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        driver.set('$key');
+
+        expect(driver.get()).toBe('$key');
+    });
+
+    test('overwrites cookies with the same key, path and domain', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        driver.set('$key=$value1');
+        driver.set('$key=$value2');
+
+        expect(driver.get()).toBe('$key=$value2');
+    });
+
+    test('keeps cookies with the same key on different paths', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        driver.set('$key=$value1; path=/');
+        driver.set('$key=$value2; path=/admin');
+
+        expect(driver.get()).toBe('$key=$value1; $key=$value2');
+    });
+
+    test('removes cookies with an expiration date in the past', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        driver.set('$key=$value');
+        driver.set(`$key=; expires=${new Date(0).toUTCString()}`);
+
+        expect(driver.get()).toBe('');
+    });
+
+    test('expires cookies once their validity period has passed', (): void => {
+        jest.useFakeTimers();
+
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        driver.set(`$key1=$value1; expires=${new Date(Date.now() + 60 * 1000).toUTCString()}`);
+        driver.set('$key2=$value2; max-age=120');
+
+        jest.advanceTimersByTime(61 * 1000);
+
+        expect(driver.get()).not.toHaveCookie('$key1', '$value1');
+        expect(driver.get()).toHaveCookie('$key2', '$value2');
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(driver.get()).toBe('');
+
+        jest.useRealTimers();
+    });
+});
+
+describe('HeaderCookieDriver', (): void => {
+    test('reads cookies from the request header', (): void => {
+        const driver: HeaderCookieDriver = new HeaderCookieDriver('$key1=$value1; $key2=$value2');
+
+        expect(driver.get()).toBe('$key1=$value1; $key2=$value2');
+        expect(driver.headers()).toEqual([]);
+    });
+
+    test('records written cookies as response headers', (): void => {
+        const driver: HeaderCookieDriver = new HeaderCookieDriver('$key1=$value1');
+
+        driver.set('$key2=$value2; path=/; Secure');
+
+        expect(driver.get()).toBe('$key1=$value1; $key2=$value2');
+        expect(driver.headers()).toEqual(['$key2=$value2; path=/; Secure']);
+    });
+});
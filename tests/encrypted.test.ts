@@ -0,0 +1,119 @@
+import { Cookie, EncryptedCookie, MemoryCookieDriver } from '../src/main';
+
+let driver: MemoryCookieDriver;
+let cookie: Cookie;
+
+async function key(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+beforeEach((): void => {
+    driver = new MemoryCookieDriver;
+    cookie = Cookie.create({ driver });
+});
+
+describe('EncryptedCookie.set', (): void => {
+    test('stores the encrypted value with the key version', async (): Promise<void> => {
+        const encrypted: EncryptedCookie = cookie.encrypted([{ version: 'v2', key: await key() }]);
+
+        await encrypted.set('$key', '$value');
+
+        expect(driver.get()).toMatch(/^\$key=v2\.[\w-]{16}\.[\w-]+$/);
+        expect(driver.get()).not.toContain('$value');
+    });
+});
+
+describe('EncryptedCookie.get', (): void => {
+    test('returns the decrypted value', async (): Promise<void> => {
+        const encrypted: EncryptedCookie = cookie.encrypted(await key());
+        const value: object = { token: '$value', id: 1 };
+
+        await encrypted.set('$key', value);
+
+        expect(await encrypted.get('$key')).toEqual(value);
+    });
+
+    test('returns the fallback if the key does not exist', async (): Promise<void> => {
+        const encrypted: EncryptedCookie = cookie.encrypted(await key());
+
+        expect(await encrypted.get('$key')).toBeNull();
+        expect(await encrypted.get('$key', 'fallback')).toBe('fallback');
+        expect(await encrypted.get('$key', (): string => 'fallback')).toBe('fallback');
+    });
+
+    test('returns the fallback if the value cannot be decrypted', async (): Promise<void> => {
+        await cookie.encrypted(await key()).set('$key', '$value');
+
+        expect(await cookie.encrypted(await key()).get('$key', 'fallback')).toBe('fallback');
+    });
+
+    test('returns the fallback if the value is not encrypted', async (): Promise<void> => {
+        cookie.set('$key1', '$value');
+        cookie.set('$key2', '1.invalid.value');
+
+        const encrypted: EncryptedCookie = cookie.encrypted(await key());
+
+        expect(await encrypted.get('$key1', 'fallback')).toBe('fallback');
+        expect(await encrypted.get('$key2', 'fallback')).toBe('fallback');
+    });
+
+    test('returns the fallback if the value was encrypted for a different key', async (): Promise<void> => {
+        const encrypted: EncryptedCookie = cookie.encrypted(await key());
+
+        await encrypted.set('$key1', '$value');
+
+        cookie.set('$key2', cookie.get('$key1'));
+
+        expect(await encrypted.get('$key2')).toBeNull();
+    });
+
+    test('decrypts values encrypted with rotated keys', async (): Promise<void> => {
+        const old: CryptoKey = await key();
+
+        await cookie.encrypted([{ version: 'v1', key: old }]).set('$key', '$value');
+
+        const encrypted: EncryptedCookie = cookie.encrypted([{ version: 'v2', key: await key() }, { version: 'v1', key: old }]);
+
+        expect(await encrypted.get('$key')).toBe('$value');
+
+        await encrypted.set('$key', '$value');
+
+        expect(driver.get()).toMatch(/^\$key=v2\./);
+    });
+});
+
+describe('EncryptedCookie.has', (): void => {
+    test('determines if the key exists and can be decrypted', async (): Promise<void> => {
+        const encrypted: EncryptedCookie = cookie.encrypted(await key());
+
+        cookie.set('$key1', '$value');
+        await encrypted.set('$key2', null);
+
+        expect(await encrypted.has('$key1')).toBe(false);
+        expect(await encrypted.has('$key2')).toBe(true);
+    });
+});
+
+describe('EncryptedCookie.remove', (): void => {
+    test('removes the key from the Cookie', async (): Promise<void> => {
+        const encrypted: EncryptedCookie = cookie.encrypted(await key());
+
+        await encrypted.set('$key', '$value');
+
+        expect(encrypted.remove('$key')).toBe(true);
+
+        expect(driver.get()).toBe('');
+    });
+});
+
+describe('Cookie.encrypted', (): void => {
+    test('throws an error if no keys are provided', (): void => {
+        expect((): EncryptedCookie => Cookie.encrypted([])).toThrow('At least one key must be provided to encrypt cookies.');
+    });
+
+    test('throws an error if the key version is not valid', async (): Promise<void> => {
+        const secret: CryptoKey = await key();
+
+        expect((): EncryptedCookie => Cookie.encrypted([{ version: 'v.1', key: secret }])).toThrow('The key version must be a non-empty string without the "." character.');
+    });
+});
@@ -0,0 +1,261 @@
+import { Cookie, CookieChangeEvent, MemoryCookieDriver } from '../src/main';
+
+let driver: MemoryCookieDriver;
+let cookie: Cookie;
+
+beforeEach((): void => {
+    driver = new MemoryCookieDriver;
+    cookie = Cookie.create({ driver });
+});
+
+describe('Cookie.on', (): void => {
+    test('emits change events for keys set through the API', (): void => {
+        const handler: jest.Mock = jest.fn();
+        const off: () => void = cookie.on('change', handler);
+
+        cookie.set('$key', { id: 1 });
+        cookie.set('$key', { id: 2 });
+
+        expect(handler).toHaveBeenNthCalledWith<[CookieChangeEvent]>(1, { key: '$key', oldValue: null, newValue: { id: 1 }, cause: 'set' });
+        expect(handler).toHaveBeenNthCalledWith<[CookieChangeEvent]>(2, { key: '$key', oldValue: { id: 1 }, newValue: { id: 2 }, cause: 'set' });
+
+        off();
+    });
+
+    test('emits change events for keys removed through the API', (): void => {
+        const handler: jest.Mock = jest.fn();
+
+        cookie.set('$key1', '$value');
+
+        const off: () => void = cookie.on('change', handler);
+
+        cookie.remove('$key1');
+        cookie.remove('$key2');
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith<[CookieChangeEvent]>({ key: '$key1', oldValue: '$value', newValue: null, cause: 'remove' });
+
+        off();
+    });
+
+    test('emits change events to all instances sharing the driver', (): void => {
+        const handler: jest.Mock = jest.fn();
+        const checkout: Cookie = cookie.namespace('checkout');
+        const off: () => void = checkout.on('change', handler);
+
+        cookie.set('$key', '$value');
+        Cookie.create({ driver }).set('checkout.$key', '$value');
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith<[CookieChangeEvent]>({ key: '$key', oldValue: null, newValue: '$value', cause: 'set' });
+
+        off();
+    });
+
+    test('detects external changes by polling the driver', (): void => {
+        jest.useFakeTimers();
+
+        const handler: jest.Mock = jest.fn();
+
+        cookie.set('$key1', '$value1');
+
+        const off: () => void = cookie.on('change', handler);
+
+        driver.set('$key1=$value2');
+        driver.set('$key2=42');
+
+        jest.advanceTimersByTime(1000);
+
+        expect(handler).toHaveBeenCalledWith<[CookieChangeEvent]>({ key: '$key1', oldValue: '$value1', newValue: '$value2', cause: 'external' });
+        expect(handler).toHaveBeenCalledWith<[CookieChangeEvent]>({ key: '$key2', oldValue: null, newValue: 42, cause: 'external' });
+
+        driver.set(`$key2=; expires=${new Date(0).toUTCString()}`);
+
+        jest.advanceTimersByTime(1000);
+
+        expect(handler).toHaveBeenLastCalledWith<[CookieChangeEvent]>({ key: '$key2', oldValue: 42, newValue: null, cause: 'external' });
+        expect(handler).toHaveBeenCalledTimes(3);
+
+        off();
+
+        jest.useRealTimers();
+    });
+
+    test('does not report changes made through the API as external', (): void => {
+        jest.useFakeTimers();
+
+        const handler: jest.Mock = jest.fn();
+        const off: () => void = cookie.on('change', handler);
+
+        cookie.set('$key', '$value');
+
+        jest.advanceTimersByTime(1000);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        off();
+
+        jest.useRealTimers();
+    });
+
+    test('stops emitting change events once the listener is removed', (): void => {
+        jest.useFakeTimers();
+
+        const handler: jest.Mock = jest.fn();
+        const off: () => void = cookie.on('change', handler);
+
+        off();
+
+        cookie.set('$key1', '$value');
+        driver.set('$key2=$value');
+
+        jest.advanceTimersByTime(1000);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(jest.getTimerCount()).toBe(0);
+
+        jest.useRealTimers();
+    });
+
+    test('detects external changes using the CookieStore change event', (): void => {
+        const listeners: (() => void)[] = [];
+        const handler: jest.Mock = jest.fn();
+
+        (global as any).document = { cookie: '' };
+        (global as any).cookieStore = {
+            addEventListener   : (type: string, listener: () => void): number => listeners.push(listener),
+            removeEventListener: (): void => void listeners.pop(),
+        };
+
+        const off: () => void = Cookie.on('change', handler);
+
+        document.cookie = '$key=$value';
+        listeners.forEach((listener: () => void): void => listener());
+
+        expect(handler).toHaveBeenCalledWith<[CookieChangeEvent]>({ key: '$key', oldValue: null, newValue: '$value', cause: 'external' });
+
+        off();
+
+        expect(listeners).toEqual([]);
+
+        delete (global as any).cookieStore;
+        delete (global as any).document;
+    });
+});
+
+describe('Cookie.watch', (): void => {
+    test('emits change events only for the watched key', (): void => {
+        const handler: jest.Mock = jest.fn();
+        const off: () => void = cookie.watch('$key1', handler);
+
+        cookie.set('$key1', '$value1');
+        cookie.set('$key2', '$value2');
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith<[CookieChangeEvent]>({ key: '$key1', oldValue: null, newValue: '$value1', cause: 'set' });
+
+        off();
+    });
+});
+
+describe('Cookie.sync', (): void => {
+    let tab1: Cookie;
+    let tab2: Cookie;
+
+    beforeEach((): void => {
+        tab1 = Cookie.create({ driver: { get: (): string => driver.get(), set: (cookie: string): void => driver.set(cookie) } });
+        tab2 = Cookie.create({ driver: { get: (): string => driver.get(), set: (cookie: string): void => driver.set(cookie) } });
+    });
+
+    test('notifies the change listeners in other tabs', async (): Promise<void> => {
+        const stop1: () => void = tab1.sync('$channel');
+        const stop2: () => void = tab2.sync('$channel');
+        const own: jest.Mock = jest.fn();
+        const offOwn: () => void = tab1.on('change', own);
+
+        const event: CookieChangeEvent = await new Promise((resolve: (event: CookieChangeEvent) => void): void => {
+            const off: () => void = tab2.on('change', (event: CookieChangeEvent): void => {
+                off();
+                resolve(event);
+            });
+
+            tab1.set('$key', { id: 1 });
+        });
+
+        expect(event).toEqual({ key: '$key', oldValue: null, newValue: { id: 1 }, cause: 'set' });
+        expect(own).toHaveBeenCalledTimes(1);
+
+        offOwn();
+        stop1();
+        stop2();
+    });
+
+    test('notifies the change listeners in other tabs about the touches', async (): Promise<void> => {
+        const stop1: () => void = tab1.sync('$channel');
+        const stop2: () => void = tab2.sync('$channel');
+        const next: (action: () => void) => Promise<CookieChangeEvent> = (action: () => void): Promise<CookieChangeEvent> => {
+            return new Promise((resolve: (event: CookieChangeEvent) => void): void => {
+                const off: () => void = tab2.on('change', (event: CookieChangeEvent): void => {
+                    off();
+                    resolve(event);
+                });
+
+                action();
+            });
+        };
+
+        await next((): string => tab1.set('$key', '$value', { ttl: 60 }));
+
+        expect(await next((): void => tab1.touch('$key', 120))).toEqual({ key: '$key', oldValue: '$value', newValue: '$value', cause: 'touch' });
+
+        stop1();
+        stop2();
+    });
+
+    test('falls back to signalling through the storage event', (): void => {
+        const channel: typeof BroadcastChannel = global.BroadcastChannel;
+        const listeners: ((event: { key: string, newValue: string | null }) => void)[] = [];
+        const dispatch: (key: string, newValue: string | null) => void = (key: string, newValue: string | null): void => {
+            listeners.forEach((listener: (event: { key: string, newValue: string | null }) => void): void => listener({ key, newValue }));
+        };
+
+        delete (global as any).BroadcastChannel;
+        (global as any).localStorage = { setItem: dispatch, removeItem: (key: string): void => dispatch(key, null) };
+        (global as any).addEventListener = (_: string, listener: (event: { key: string, newValue: string | null }) => void): number => listeners.push(listener);
+        (global as any).removeEventListener = (_: string, listener: (event: { key: string, newValue: string | null }) => void): void => {
+            listeners.splice(listeners.indexOf(listener), 1);
+        };
+
+        const handler1: jest.Mock = jest.fn();
+        const handler2: jest.Mock = jest.fn();
+        const stop1: () => void = tab1.sync('$channel');
+        const stop2: () => void = tab2.sync('$channel');
+        const off1: () => void = tab1.on('change', handler1);
+        const off2: () => void = tab2.on('change', handler2);
+
+        expect((): void => {
+            dispatch('$channel', '$value');
+            dispatch('cookie-sync:$channel', '$value');
+            dispatch('cookie-sync:$channel', '{"source":"$source"}');
+        }).not.toThrow();
+
+        tab1.set('$key', '$value');
+        tab1.remove('$key');
+
+        expect(handler1).toHaveBeenCalledTimes(2);
+        expect(handler2).toHaveBeenCalledTimes(2);
+        expect(handler2).toHaveBeenLastCalledWith<[CookieChangeEvent]>({ key: '$key', oldValue: '$value', newValue: null, cause: 'remove' });
+
+        off1();
+        off2();
+        stop1();
+        stop2();
+
+        expect(listeners).toEqual([]);
+
+        global.BroadcastChannel = channel;
+        delete (global as any).localStorage;
+        delete (global as any).addEventListener;
+        delete (global as any).removeEventListener;
+    });
+});
@@ -1,5 +1,5 @@
-import { Cookie, CookieAttributes } from '../src/main';
-import { toHaveCookie } from './setup/matchers';
+import { Cookie, CookieAttributes, CookieChangeEvent, DefaultCookieConverter, DocumentCookieDriver, HeaderCookieDriver, MemoryCookieDriver } from '../src/main';
+import { toHaveCookie } from '../src/testing';
 
 expect.extend({
     toHaveCookie,
@@ -74,7 +74,7 @@ class DocumentCookie {
         }
 
         const key: string = keyValue.split('=')[0] as string;
-        const value: string | null = keyValue.split('=')[1] ?? null;
+        const value: string | null = keyValue.includes('=') ? keyValue.slice(key.length + 1) : null;
         const ttl: string | null = cookie.match(/max-age=([^;]+);/)?.[1] ?? null;
         let expires: string | null = cookie.match(/expires=([^;]+)/)?.[1] ?? null;
         const domain: string | null = '.' + (cookie.match(/domain=([^;]+);/)?.[1] ?? location.host.replace('www.', ''));
@@ -365,6 +365,7 @@ beforeEach((): void => {
     (global as any).location = new Location('https://example.com');
 
     Cookie.ttl(null);
+    Cookie.driver(new DocumentCookieDriver);
 
     clearInterval(interval);
 });
@@ -405,6 +406,546 @@ describe('Cookie.ttl', (): void => {
     });
 });
 
+describe('Cookie.driver', (): void => {
+    test('reads and writes cookies through the given driver', (): void => {
+        const key: string = '$key';
+        const value: string = '$value';
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        Cookie.driver(driver);
+        Cookie.set(key, value);
+
+        expect(driver.get()).toHaveCookie(key, value);
+        expect(document.cookie).not.toHaveCookie(key, value);
+        expect(Cookie.get(key)).toBe(value);
+        expect(Cookie.keys()).toEqual([key]);
+        expect(Cookie.isNotEmpty()).toBe(true);
+
+        Cookie.remove(key);
+
+        expect(Cookie.get(key)).toBeNull();
+        expect(Cookie.isEmpty()).toBe(true);
+    });
+});
+
+describe('Cookie.converter', (): void => {
+    afterEach((): void => {
+        Cookie.converter(new DefaultCookieConverter);
+    });
+
+    test('encodes and decodes values through the given converter', (): void => {
+        const key: string = '$key';
+        const value: string = '$value';
+
+        Cookie.converter({
+            read : (value: string): string => value.split('').reverse().join(''),
+            write: (value: string): string => value.split('').reverse().join(''),
+        });
+
+        Cookie.set(key, value);
+
+        expect(document.cookie).toHaveCookie(key, 'eulav$');
+        expect(Cookie.get(key)).toBe(value);
+    });
+});
+
+describe('Cookie.create', (): void => {
+    test('creates an instance with its own default attributes', (): void => {
+        const key: string = '$key';
+        const value: string = '$value';
+        const cookie: Cookie = Cookie.create({ path: '/', domain: 'example.com', sameSite: 'Strict', secure: true });
+
+        const header: string = cookie.set(key, value);
+
+        expect(document.cookie).toHaveCookie(key, value);
+        expect(header).toContain('path=/');
+        expect(header).toContain('domain=example.com');
+        expect(header).toContain('SameSite=Strict');
+        expect(header).toContain('Secure');
+        expect(Cookie.set(key, value)).toBe(`${key}=${value}`);
+    });
+
+    test('overrides default attributes with the given ones', (): void => {
+        const cookie: Cookie = Cookie.create({ path: '/', sameSite: 'Strict' });
+
+        expect(cookie.set('$key', '$value', { sameSite: 'Lax' })).toBe('$key=$value; path=/; SameSite=Lax');
+    });
+
+    test('creates an instance with its own default validity period', (): void => {
+        const key: string = '$key';
+        const value: string = '$value';
+        const cookie: Cookie = Cookie.create({ ttl: 60 });
+
+        expect(cookie.set(key, value)).toMatch(/expires=([^;]+)/);
+        expect(Cookie.set(key, value)).not.toMatch(/expires=([^;]+)/);
+
+        cookie.remove(key);
+
+        expect(cookie.get(key)).toBeNull();
+    });
+
+    test('creates an instance with its own driver', (): void => {
+        const key: string = '$key';
+        const value: string = '$value';
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+        const cookie: Cookie = Cookie.create({ driver });
+
+        cookie.set(key, value);
+
+        expect(cookie.get(key)).toBe(value);
+        expect(cookie.count()).toBe(1);
+        expect(Cookie.get(key)).toBeNull();
+        expect(Cookie.count()).toBe(0);
+    });
+});
+
+describe('Cookie.withAttributes', (): void => {
+    test('creates a new instance with merged default attributes', (): void => {
+        const cookie: Cookie = Cookie.create({ path: '/', sameSite: 'Strict' });
+        const derived: Cookie = cookie.withAttributes({ domain: 'example.com' });
+
+        expect(derived.set('$key', '$value')).toBe('$key=$value; path=/; domain=example.com; SameSite=Strict');
+        expect(cookie.set('$key', '$value')).toBe('$key=$value; path=/; SameSite=Strict');
+    });
+
+    test('creates a new instance from the default one', (): void => {
+        const cookie: Cookie = Cookie.withAttributes({ path: '/' });
+
+        expect(cookie.set('$key', '$value')).toBe('$key=$value; path=/');
+    });
+});
+
+describe('Cookie.withConverter', (): void => {
+    test('creates a new instance with the given converter', (): void => {
+        const key: string = '$key';
+        const value: string = '$value';
+        const cookie: Cookie = Cookie.withConverter({
+            read : (value: string): string => value.toLowerCase(),
+            write: (value: string): string => value.toUpperCase(),
+        });
+
+        cookie.set(key, value);
+
+        expect(document.cookie).toHaveCookie(key, '$VALUE');
+        expect(cookie.get(key)).toBe(value);
+        expect(Cookie.get(key)).toBe('$VALUE');
+    });
+});
+
+describe('Cookie.namespace', (): void => {
+    test('prefixes keys with the namespace', (): void => {
+        const key: string = '$key';
+        const value: string = '$value';
+        const checkout: Cookie = Cookie.namespace('checkout');
+
+        checkout.set(key, value);
+
+        expect(document.cookie).toHaveCookie(`checkout.${key}`, value);
+        expect(checkout.get(key)).toBe(value);
+        expect(checkout.has(key)).toBe(true);
+        expect(Cookie.get(key)).toBeNull();
+    });
+
+    test('only sees keys within the namespace', (): void => {
+        const checkout: Cookie = Cookie.namespace('checkout');
+
+        Cookie.set('$key1', '$value1');
+        checkout.set('$key2', '$value2');
+        checkout.set('$key3', '$value3');
+
+        expect(checkout.all()).toEqual([{ key: '$key2', value: '$value2' }, { key: '$key3', value: '$value3' }]);
+        expect(checkout.keys()).toEqual(['$key2', '$key3']);
+        expect(checkout.count()).toBe(2);
+        expect(Cookie.count()).toBe(3);
+    });
+
+    test('clears only keys within the namespace', (): void => {
+        const checkout: Cookie = Cookie.namespace('checkout');
+
+        Cookie.set('$key1', '$value1');
+        checkout.set('$key2', '$value2');
+
+        expect(checkout.isEmpty()).toBe(false);
+
+        checkout.clear();
+
+        expect(checkout.isEmpty()).toBe(true);
+        expect(Cookie.keys()).toEqual(['$key1']);
+    });
+
+    test('supports nested namespaces', (): void => {
+        const checkout: Cookie = Cookie.namespace('checkout');
+        const cart: Cookie = checkout.namespace('cart');
+
+        cart.set('$key', '$value');
+
+        expect(document.cookie).toHaveCookie('checkout.cart.$key', '$value');
+        expect(cart.keys()).toEqual(['$key']);
+        expect(checkout.keys()).toEqual(['cart.$key']);
+    });
+});
+
+describe('Cookie chunking', (): void => {
+    test('splits values larger than the chunk size into multiple cookies', (): void => {
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+
+        expect(cookie.set('$key', 'abcdefghijklmnopqrstuvwxy')).toBe('$key=%chunks:3');
+        expect(document.cookie).toHaveCookie('$key.0', 'abcdefghij');
+        expect(document.cookie).toHaveCookie('$key.1', 'klmnopqrst');
+        expect(document.cookie).toHaveCookie('$key.2', 'uvwxy');
+    });
+
+    test('does not split values smaller than the chunk size', (): void => {
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+
+        expect(cookie.set('$key', 'abcdefghij')).toBe('$key=abcdefghij');
+        expect(document.cookie).toBe('$key=abcdefghij');
+    });
+
+    test('gets chunked values as a single value', (): void => {
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+        const value: object = { name: 'ćevapčići', items: [1, 2, 3] };
+
+        cookie.set('$key', value);
+
+        expect(cookie.get('$key')).toEqual(value);
+        expect(Cookie.get('$key')).toEqual(value);
+    });
+
+    test('returns fallback if any of the chunks is missing', (): void => {
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+
+        cookie.set('$key', 'abcdefghijklmnopqrstuvwxy');
+        document.cookie = `$key.1=; expires=${new Date(0).toUTCString()}`;
+
+        expect(cookie.get('$key', 'fallback')).toBe('fallback');
+    });
+
+    test('treats chunks as a single cookie when listing all items', (): void => {
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+
+        cookie.set('$key1', 'abcdefghijklmnopqrstuvwxy');
+        cookie.set('$key2', '$value2');
+
+        expect(cookie.all()).toEqual([{ key: '$key1', value: 'abcdefghijklmnopqrstuvwxy' }, { key: '$key2', value: '$value2' }]);
+        expect(cookie.keys()).toEqual(['$key1', '$key2']);
+        expect(cookie.count()).toBe(2);
+    });
+
+    test('removes all chunks of the value', (): void => {
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+
+        cookie.set('$key', 'abcdefghijklmnopqrstuvwxy');
+        cookie.remove('$key');
+
+        expect(document.cookie).toBe('');
+    });
+
+    test('removes stale chunks when the value shrinks', (): void => {
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+
+        cookie.set('$key', 'abcdefghijklmnopqrstuvwxy');
+        cookie.set('$key', 'abcdefghijklmno');
+
+        expect(document.cookie).toBe('$key.0=abcdefghij; $key.1=klmno; $key=%chunks:2');
+
+        cookie.set('$key', 'abc');
+
+        expect(document.cookie).toBe('$key=abc');
+    });
+
+    test('updates the expiration time of all chunks', (): void => {
+        jest.useFakeTimers();
+
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+
+        cookie.set('$key', 'abcdefghijklmnopqrstuvwxy');
+        cookie.touch('$key', 60);
+
+        jest.advanceTimersByTime(61 * 1000);
+
+        expect(document.cookie).toBe('');
+
+        jest.useRealTimers();
+    });
+});
+
+describe('Cookie quota', (): void => {
+    test('warns if the cookie exceeds the size limit by default', (): void => {
+        const $console: jest.SpyInstance = jest.spyOn(console, 'warn').mockImplementation();
+
+        Cookie.set('$key', 'a'.repeat(4096));
+
+        expect($console).toHaveBeenCalledWith('The cookie "$key" exceeds the limit of 4096 bytes.');
+        expect(document.cookie).toHaveCookie('$key', 'a'.repeat(4096));
+
+        $console.mockRestore();
+    });
+
+    test('throws an error if the cookie exceeds the size limit', (): void => {
+        const cookie: Cookie = Cookie.create({ quota: { policy: 'throw', size: 20 } });
+
+        expect((): string => cookie.set('$key', 'a'.repeat(20))).toThrow('The cookie "$key" exceeds the limit of 20 bytes.');
+        expect(document.cookie).toBe('');
+    });
+
+    test('measures the name and the value of the chunks without their attributes', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+        const cookie: Cookie = Cookie.create({ driver, chunked: true, quota: { policy: 'throw' } });
+        const value: string = 'a'.repeat(10000);
+
+        cookie.set('$key', value, { domain: 'subdomain.example.com', path: '/account/settings', ttl: 86400, sameSite: 'Strict', secure: true });
+
+        expect(cookie.get('$key')).toBe(value);
+    });
+
+    test('throws an error if the cookie attribute exceeds the size limit', (): void => {
+        const cookie: Cookie = Cookie.create({ quota: { policy: 'throw' } });
+
+        expect((): string => cookie.set('$key', '$value', { path: `/${'a'.repeat(1024)}` })).toThrow('The "path" attribute of the cookie "$key" exceeds the limit of 1024 bytes.');
+        expect(document.cookie).toBe('');
+    });
+
+    test('throws an error if the cookie exceeds the count limit', (): void => {
+        const cookie: Cookie = Cookie.create({ quota: { policy: 'throw', count: 2 } });
+
+        cookie.set('$key1', '$value1');
+        cookie.set('$key2', '$value2');
+        cookie.set('$key2', '$value3');
+
+        expect((): string => cookie.set('$key3', '$value3')).toThrow('Writing the cookie "$key3" exceeds the limit of 2 cookies.');
+        expect(cookie.keys()).toEqual(['$key1', '$key2']);
+    });
+
+    test('evicts the oldest cookies if the cookie exceeds the count limit', (): void => {
+        const cookie: Cookie = Cookie.create({ quota: { policy: 'evict-oldest', count: 2 } });
+
+        cookie.set('$key1', '$value1');
+        cookie.set('$key2', '$value2');
+        cookie.set('$key3', '$value3');
+
+        expect(cookie.keys()).toEqual(['$key2', '$key3']);
+    });
+
+    test('evicts the whole oldest cookies using the attributes they were set with', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+        const cookie: Cookie = Cookie.create({ driver, chunked: 10, quota: { policy: 'evict-oldest', count: 4 } });
+        const removed: string[] = [];
+
+        cookie.set('big', 'a'.repeat(20), { path: '/app' });
+        cookie.set('$key1', '$value1');
+        const off: () => void = cookie.on('change', (event: CookieChangeEvent): number => removed.push(`${event.cause}:${event.key}`));
+
+        cookie.set('$key2', '$value2');
+        off();
+
+        expect(driver.get()).toBe('$key1=$value1; $key2=$value2');
+        expect(removed).toEqual(['remove:big', 'set:$key2']);
+    });
+
+    test('ignores the size limits', (): void => {
+        const $console: jest.SpyInstance = jest.spyOn(console, 'warn').mockImplementation();
+        const cookie: Cookie = Cookie.create({ quota: { policy: 'ignore', size: 10, count: 1 } });
+
+        cookie.set('$key1', '$value1');
+        cookie.set('$key2', '$value2');
+
+        expect($console).not.toHaveBeenCalled();
+        expect(cookie.count()).toBe(2);
+
+        $console.mockRestore();
+    });
+
+    test('does not enforce the size limits when removing cookies', (): void => {
+        const cookie: Cookie = Cookie.create({ quota: { policy: 'throw', count: 1 } });
+
+        cookie.set('$key1', '$value1');
+
+        expect((): boolean => cookie.remove('$key2')).not.toThrow();
+    });
+});
+
+describe('Cookie.size', (): void => {
+    test('returns the size of the key in bytes', (): void => {
+        Cookie.set('$key', 'ć');
+
+        expect(Cookie.size('$key')).toBe('$key=%C4%87'.length);
+    });
+
+    test('returns the size of all chunks of the key', (): void => {
+        const cookie: Cookie = Cookie.create({ chunked: 10 });
+
+        cookie.set('$key', 'abcdefghijklmno');
+
+        expect(cookie.size('$key')).toBe('$key=%chunks:2'.length + '$key.0=abcdefghij'.length + '$key.1=klmno'.length);
+    });
+
+    test('returns 0 if the key does not exist', (): void => {
+        expect(Cookie.size('$key')).toBe(0);
+    });
+
+    test('returns the size of all items in the Cookie', (): void => {
+        Cookie.set('$key1', '$value1');
+        Cookie.set('$key2', '$value2');
+
+        expect(Cookie.size()).toBe(2 * '$key1=$value1'.length);
+    });
+});
+
+describe('Cookie duplicates', (): void => {
+    let cookie: Cookie;
+
+    beforeEach((): void => {
+        cookie = Cookie.create({
+            driver: {
+                get: (): string => '$key=$app; $other=$value; $key=$root; $chunked=%chunks:2; $chunked.0=ab; $chunked.1=cd',
+                set: (): void => {},
+            },
+        });
+    });
+
+    test('returns the value listed first', (): void => {
+        expect(cookie.get('$key')).toBe('$app');
+    });
+
+    test('returns all values of the key in the listed order', (): void => {
+        expect(cookie.getAll('$key')).toEqual(['$app', '$root']);
+        expect(cookie.getAll('$chunked')).toEqual(['abcd']);
+        expect(cookie.getAll('$missing')).toEqual([]);
+    });
+
+    test('returns all items with their own values', (): void => {
+        expect(cookie.all()).toEqual([
+            { key: '$key', value: '$app' },
+            { key: '$other', value: '$value' },
+            { key: '$key', value: '$root' },
+            { key: '$chunked', value: 'abcd' },
+        ]);
+    });
+
+    test('returns the keys set on multiple paths or domains', (): void => {
+        expect(cookie.duplicates()).toEqual([{ key: '$key', values: ['$app', '$root'] }]);
+    });
+});
+
+describe('Cookie metadata', (): void => {
+    let cookie: Cookie;
+
+    beforeEach((): void => {
+        jest.useFakeTimers({ now: 1000 });
+
+        cookie = Cookie.create({ driver: new MemoryCookieDriver, metadata: true });
+    });
+
+    afterEach((): void => {
+        jest.useRealTimers();
+    });
+
+    test('stores the expiry and creation time alongside the value', (): void => {
+        expect(cookie.set('$key', '$value', { ttl: 60 })).toMatch(/^\$key=%meta:1000:61000:\$value; expires=/);
+        expect(cookie.get('$key')).toBe('$value');
+    });
+
+    test('returns the recorded expiry', (): void => {
+        cookie.set('$key', '$value', { maxAge: 60 });
+
+        expect(cookie.expiresAt('$key')).toEqual(new Date(61000));
+    });
+
+    test('returns the remaining validity period', (): void => {
+        cookie.set('$key', '$value', { ttl: 300 });
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(cookie.ttlOf('$key')).toBe(240);
+    });
+
+    test('returns null for session cookies', (): void => {
+        cookie.set('$key', '$value');
+
+        expect(cookie.expiresAt('$key')).toBeNull();
+        expect(cookie.ttlOf('$key')).toBeNull();
+        expect(cookie.isExpired('$key')).toBe(false);
+    });
+
+    test('keeps the creation time when the key is touched', (): void => {
+        cookie.set('$key', '$value', { ttl: 60 });
+
+        jest.advanceTimersByTime(30 * 1000);
+
+        cookie.touch('$key', 60);
+
+        expect(cookie.createdAt('$key')).toEqual(new Date(1000));
+        expect(cookie.expiresAt('$key')).toEqual(new Date(91000));
+    });
+
+    test('determines if the key is expired', (): void => {
+        const header: HeaderCookieDriver = new HeaderCookieDriver(`$key=%meta:0:500:$value`);
+
+        expect(Cookie.create({ driver: header }).isExpired('$key')).toBe(true);
+        expect(cookie.isExpired('$key')).toBe(true);
+    });
+
+    test('returns null for keys set without metadata', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+
+        Cookie.create({ driver }).set('$key', '$value', { ttl: 60 });
+
+        expect(Cookie.create({ driver }).expiresAt('$key')).toBeNull();
+        expect(Cookie.create({ driver }).createdAt('$key')).toBeNull();
+    });
+});
+
+describe('Cookie name prefixes', (): void => {
+    test('prefixes the key with "__Host-"', (): void => {
+        expect(Cookie.host('$key')).toBe('__Host-$key');
+    });
+
+    test('prefixes the key with "__Secure-"', (): void => {
+        expect(Cookie.secure('$key')).toBe('__Secure-$key');
+    });
+
+    test('applies the attributes required by the "__Host-" prefix', (): void => {
+        const cookie: string = Cookie.set(Cookie.host('$key'), '$value', { path: '/test', domain: 'example.com' });
+
+        expect(cookie).toBe('__Host-$key=$value; path=/; Secure');
+    });
+
+    test('applies the attributes required by the "__Secure-" prefix', (): void => {
+        const cookie: string = Cookie.set(Cookie.secure('$key'), '$value', { path: '/test' });
+
+        expect(cookie).toBe('__Secure-$key=$value; path=/test; Secure');
+    });
+
+    test('throws an error in strict mode if the "__Secure-" prefixed cookie is not secure', (): void => {
+        const cookie: Cookie = Cookie.create({ strict: true });
+
+        expect((): string => cookie.set('__Secure-$key', '$value')).toThrow('The "__Secure-" prefixed cookie "__Secure-$key" must have the "secure" attribute set to "true".');
+    });
+
+    test('throws an error in strict mode if the "__Host-" prefixed cookie is not set on the "/" path', (): void => {
+        const cookie: Cookie = Cookie.create({ strict: true });
+
+        expect((): string => cookie.set('__Host-$key', '$value', { secure: true })).toThrow('The "__Host-" prefixed cookie "__Host-$key" must have the "path" attribute set to "/".');
+    });
+
+    test('throws an error in strict mode if the "__Host-" prefixed cookie has a domain', (): void => {
+        const cookie: Cookie = Cookie.create({ strict: true });
+
+        expect((): string => cookie.set('__Host-$key', '$value', { secure: true, path: '/', domain: 'example.com' })).toThrow('The "__Host-" prefixed cookie "__Host-$key" must not have the "domain" attribute set.');
+    });
+
+    test('removes the prefixed key in strict mode', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+        const cookie: Cookie = Cookie.create({ driver, strict: true });
+
+        cookie.set('__Host-$key', '$value', { secure: true, path: '/' });
+        cookie.remove('__Host-$key');
+
+        expect(cookie.has('__Host-$key')).toBe(false);
+    });
+});
+
 describe('Cookie.set', (): void => {
     test('sets the key with string value to the Cookie object', (): void => {
         const key: string = '$key';
@@ -439,7 +980,7 @@ describe('Cookie.set', (): void => {
 
         Cookie.set(key, value);
 
-        expect(document.cookie).toHaveCookie(key, value);
+        expect(document.cookie).toHaveCookie(key, '{%22data%22:%22$value%22}');
     });
 
     test('sets the key with array value to the Cookie object', (): void => {
@@ -448,7 +989,16 @@ describe('Cookie.set', (): void => {
 
         Cookie.set(key, value);
 
-        expect(document.cookie).toHaveCookie(key, value);
+        expect(document.cookie).toHaveCookie(key, '[%22$value%22]');
+    });
+
+    test('encodes characters not allowed in the cookie name and value', (): void => {
+        const key: string = '$key; name';
+        const value: string = 'a;b, c=d ćevap';
+
+        Cookie.set(key, value);
+
+        expect(document.cookie).toHaveCookie('$key%3B%20name', 'a%3Bb%2C%20c=d%20%C4%87evap');
     });
 
     test('sets the key with null value to the Cookie object', (): void => {
@@ -571,6 +1121,44 @@ describe('Cookie.set', (): void => {
         expect(cookie).toContain('Secure');
     });
 
+    test('sets the key with maxAge attribute to the Cookie object', (): void => {
+        const cookie: string = Cookie.set('$key', '$value', { maxAge: 60 });
+
+        expect(document.cookie).toHaveCookie('$key', '$value');
+        expect(cookie).toBe('$key=$value; max-age=60');
+    });
+
+    test('sets the key with partitioned attribute to the Cookie object', (): void => {
+        const cookie: string = Cookie.set('$key', '$value', { sameSite: 'None', secure: true, partitioned: true });
+
+        expect(document.cookie).toHaveCookie('$key', '$value');
+        expect(cookie).toBe('$key=$value; SameSite=None; Secure; Partitioned');
+    });
+
+    test('throws an error if partitioned=true is set without secure=true', (): void => {
+        expect((): string => Cookie.set('$key', '$value', { partitioned: true })).toThrow('The "secure" attribute must be set to "true" if "partitioned" is set to "true".');
+    });
+
+    test('sets the key with priority attribute to the Cookie object', (): void => {
+        const cookie: string = Cookie.set('$key', '$value', { priority: 'High' });
+
+        expect(document.cookie).toHaveCookie('$key', '$value');
+        expect(cookie).toBe('$key=$value; Priority=High');
+    });
+
+    test('sets the key with httpOnly attribute using a server-side driver', (): void => {
+        const driver: HeaderCookieDriver = new HeaderCookieDriver;
+        const cookie: string = Cookie.create({ driver }).set('$key', '$value', { httpOnly: true, secure: true });
+
+        expect(cookie).toBe('$key=$value; Secure; HttpOnly');
+        expect(driver.headers()).toEqual([cookie]);
+    });
+
+    test('throws an error if httpOnly=true is set using a browser driver', (): void => {
+        expect((): string => Cookie.set('$key', '$value', { httpOnly: true })).toThrow('The "httpOnly" attribute can only be set when using a server-side driver.');
+        expect(document.cookie).toBe('');
+    });
+
     test('sets the key with multiple attributes to the Cookie object', (): void => {
         const key: string = '$key';
         const value: string = '$value';
@@ -693,6 +1281,24 @@ describe('Cookie.get', (): void => {
         expect(Cookie.get(key)).toBe(value);
     });
 
+    test('decodes encoded cookie name and value', (): void => {
+        const key: string = '$key; name';
+        const value: string = 'a;b, c=d ćevap';
+
+        Cookie.set(key, value);
+
+        expect(Cookie.get(key)).toBe(value);
+        expect(Cookie.keys()).toEqual([key]);
+    });
+
+    test('reads raw cookie values that were not encoded', (): void => {
+        document.cookie = '$key1=100%';
+        document.cookie = '$key2="quoted value"';
+
+        expect(Cookie.get('$key1')).toBe('100%');
+        expect(Cookie.get('$key2')).toBe('quoted value');
+    });
+
     test('returns fallback value if key does not exist in the Cookie object', (): void => {
         const key: string = '$key';
         const fallback: string = 'fallback';
@@ -777,6 +1383,518 @@ describe('Cookie.all', (): void => {
     });
 });
 
+describe('Cookie dot-path access', (): void => {
+    let cookie: Cookie;
+
+    beforeEach((): void => {
+        cookie = Cookie.create({ driver: new MemoryCookieDriver });
+        cookie.set('user', { name: 'John', prefs: { theme: 'light' } });
+    });
+
+    test('gets the nested value', (): void => {
+        expect(cookie.get('user.prefs.theme')).toBe('light');
+        expect(cookie.get('user.prefs.size', 14)).toBe(14);
+    });
+
+    test('sets the nested value', (): void => {
+        cookie.set('user.prefs.theme', 'dark');
+        cookie.set('user.address.city', 'Belgrade');
+
+        expect(cookie.get('user')).toEqual({ name: 'John', prefs: { theme: 'dark' }, address: { city: 'Belgrade' } });
+    });
+
+    test('prefers the cookie with the full key', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+        const cookie: Cookie = Cookie.create({ driver });
+
+        cookie.set('user', { name: 'John', prefs: { theme: 'light' } });
+        driver.set('user.prefs=$value');
+
+        expect(cookie.get('user.prefs')).toBe('$value');
+        expect(cookie.get('user')).toEqual({ name: 'John', prefs: { theme: 'light' } });
+    });
+
+    test('does not treat the key as a path if the cookie does not hold an object', (): void => {
+        cookie.set('app', '$value');
+        cookie.set('app.key', '$nested');
+
+        expect(cookie.get('app')).toBe('$value');
+        expect(cookie.get('app.key')).toBe('$nested');
+    });
+
+    test('keeps the attributes of the cookie', (): void => {
+        jest.useFakeTimers({ now: 0 });
+
+        const driver: HeaderCookieDriver = new HeaderCookieDriver;
+        const cookie: Cookie = Cookie.create({ driver });
+
+        cookie.set('user', { prefs: { theme: 'light' } }, { path: '/app', maxAge: 60 });
+
+        jest.advanceTimersByTime(30 * 1000);
+
+        cookie.set('user.prefs.theme', 'dark');
+
+        expect(driver.headers()[1]).toBe('user={%22prefs%22:{%22theme%22:%22dark%22}}; expires=Thu, 01 Jan 1970 00:01:00 GMT; path=/app');
+
+        jest.useRealTimers();
+    });
+
+    test('does not treat the chunks of chunked values as cookies', (): void => {
+        const cookie: Cookie = Cookie.create({ driver: new MemoryCookieDriver, chunked: 10 });
+
+        cookie.set('list', [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+        expect(cookie.get('list.0')).toBe(0);
+
+        cookie.set('list.0', 99);
+
+        expect(cookie.get('list')).toEqual([99, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    test('throws an error if the chunk of a chunked value is written', (): void => {
+        const cookie: Cookie = Cookie.create({ driver: new MemoryCookieDriver, chunked: 10 });
+
+        cookie.set('text', 'a'.repeat(30));
+
+        expect((): string => cookie.set('text.0', '$value')).toThrow('The "text.0" key is reserved for a chunk of the "text" key.');
+        expect(cookie.get('text')).toBe('a'.repeat(30));
+    });
+});
+
+describe('Cookie structured helpers', (): void => {
+    let driver: HeaderCookieDriver;
+    let cookie: Cookie;
+
+    beforeEach((): void => {
+        driver = new HeaderCookieDriver;
+        cookie = Cookie.create({ driver });
+    });
+
+    test('increments and decrements the value', (): void => {
+        expect(cookie.increment('visits')).toBe(1);
+        expect(cookie.increment('visits', 5)).toBe(6);
+        expect(cookie.decrement('visits', 2)).toBe(4);
+        expect(cookie.get('visits')).toBe(4);
+    });
+
+    test('throws an error if the value is not a number', (): void => {
+        cookie.set('$key', '$value');
+
+        expect((): number => cookie.increment('$key')).toThrow('The value of the "$key" key is not a number.');
+    });
+
+    test('pushes and pulls the items', (): void => {
+        cookie.push('tags', 'a', 'b', { id: 1 });
+
+        expect(cookie.pull('tags', 'b', { id: 1 })).toEqual(['a']);
+        expect(cookie.get('tags')).toEqual(['a']);
+    });
+
+    test('throws an error if the value is not an array', (): void => {
+        cookie.set('$key', '$value');
+
+        expect((): any[] => cookie.push('$key', 'a')).toThrow('The value of the "$key" key is not an array.');
+    });
+
+    test('merges the properties', (): void => {
+        cookie.set('user', { name: 'John', age: 30 });
+
+        expect(cookie.merge('user', { age: 31 })).toEqual({ name: 'John', age: 31 });
+        expect(cookie.merge('user.prefs', { theme: 'dark' })).toEqual({ theme: 'dark' });
+        expect(cookie.get('user')).toEqual({ name: 'John', age: 31, prefs: { theme: 'dark' } });
+    });
+
+    test('throws an error if the value is not an object', (): void => {
+        cookie.set('$key', '$value');
+
+        expect((): object => cookie.merge('$key', {})).toThrow('The value of the "$key" key is not an object.');
+    });
+
+    test('keeps the attributes and expiration time of the cookie', (): void => {
+        cookie.set('visits', 1, { path: '/', expires: new Date('2100-01-01T00:00:00Z'), sameSite: 'Strict' });
+        cookie.increment('visits');
+
+        expect(driver.headers()[1]).toBe('visits=2; expires=Fri, 01 Jan 2100 00:00:00 GMT; path=/; SameSite=Strict');
+    });
+
+    test('keeps the expiration time of the cookie set with the max-age attribute', (): void => {
+        jest.useFakeTimers({ now: 0 });
+
+        cookie.set('visits', 1, { maxAge: 60 });
+
+        jest.advanceTimersByTime(30 * 1000);
+
+        cookie.increment('visits');
+        cookie.rename('visits', 'views');
+
+        expect(driver.headers()).toEqual([
+            'visits=1; max-age=60',
+            'visits=2; expires=Thu, 01 Jan 1970 00:01:00 GMT',
+            'views=2; expires=Thu, 01 Jan 1970 00:01:00 GMT',
+            'visits=; expires=Thu, 01 Jan 1970 00:00:00 GMT',
+        ]);
+
+        jest.useRealTimers();
+    });
+
+    test('keeps the expiration time recorded in the metadata', (): void => {
+        const driver: HeaderCookieDriver = new HeaderCookieDriver('visits=%meta:0:4102444800000:1');
+        const cookie: Cookie = Cookie.create({ driver, metadata: true });
+
+        expect(cookie.increment('visits')).toBe(2);
+        expect(cookie.expiresAt('visits')).toEqual(new Date('2100-01-01T00:00:00Z'));
+        expect(cookie.createdAt('visits')).toEqual(new Date(0));
+    });
+});
+
+describe('Cookie.rename', (): void => {
+    let driver: HeaderCookieDriver;
+    let cookie: Cookie;
+
+    beforeEach((): void => {
+        driver = new HeaderCookieDriver;
+        cookie = Cookie.create({ driver });
+    });
+
+    test('moves the value to the new key, keeping its attributes', (): void => {
+        cookie.set('prefs', { theme: 'dark' }, { path: '/app', expires: new Date('2100-01-01T00:00:00Z'), sameSite: 'Strict' });
+
+        expect(cookie.rename('prefs', 'settings')).toBe(true);
+        expect(cookie.get('settings')).toEqual({ theme: 'dark' });
+        expect(cookie.has('prefs')).toBe(false);
+        expect(driver.headers()).toEqual([
+            'prefs={%22theme%22:%22dark%22}; expires=Fri, 01 Jan 2100 00:00:00 GMT; path=/app; SameSite=Strict',
+            'settings={%22theme%22:%22dark%22}; expires=Fri, 01 Jan 2100 00:00:00 GMT; path=/app; SameSite=Strict',
+            'prefs=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/app; SameSite=Strict',
+        ]);
+    });
+
+    test('does nothing if the key is missing', (): void => {
+        expect(cookie.rename('prefs', 'settings')).toBe(false);
+        expect(driver.headers()).toEqual([]);
+    });
+});
+
+describe('Cookie sliding expiration', (): void => {
+    let driver: HeaderCookieDriver;
+    let cookie: Cookie;
+
+    beforeEach((): void => {
+        jest.useFakeTimers({ now: 0 });
+
+        driver = new HeaderCookieDriver;
+        cookie = Cookie.create({ driver });
+    });
+
+    afterEach((): void => {
+        jest.useRealTimers();
+    });
+
+    test('re-issues the key read after the throttle interval, keeping its attributes', (): void => {
+        cookie.set('session', '$value', { ttl: 3600, path: '/', sameSite: 'Strict', sliding: true });
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(cookie.get('session')).toBe('$value');
+        expect(driver.headers()).toEqual([
+            'session=%sliding:3600:path=%2F&sameSite=Strict:$value; expires=Thu, 01 Jan 1970 01:00:00 GMT; path=/; SameSite=Strict',
+            'session=%sliding:3600:path=%2F&sameSite=Strict:$value; expires=Thu, 01 Jan 1970 01:01:00 GMT; path=/; SameSite=Strict',
+        ]);
+    });
+
+    test('renews the key after a reload using the stored ttl and attributes', (): void => {
+        cookie.set('session', '$value', { ttl: 3600, path: '/', sameSite: 'Strict', secure: true, sliding: true });
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        const reloaded: HeaderCookieDriver = new HeaderCookieDriver(driver.headers()[0]?.split(';')[0]);
+
+        expect(Cookie.create({ driver: reloaded }).get('session')).toBe('$value');
+        expect(reloaded.headers()).toEqual([
+            'session=%sliding:3600:path=%2F&sameSite=Strict&secure=true:$value; expires=Thu, 01 Jan 1970 01:01:00 GMT; path=/; SameSite=Strict; Secure',
+        ]);
+    });
+
+    test('renews the key set with the max-age attribute', (): void => {
+        cookie.set('session', '$value', { maxAge: 3600, sliding: true });
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(cookie.renew('session')).toBe(true);
+        expect(driver.headers()[1]).toBe('session=%sliding:3600::$value; expires=Thu, 01 Jan 1970 01:01:00 GMT');
+    });
+
+    test('does not notify the change listeners about the renewals', (): void => {
+        const events: string[] = [];
+
+        cookie.set('session', '$value', { ttl: 3600, sliding: true });
+
+        const off: () => void = cookie.on('change', (event: CookieChangeEvent): number => events.push(`${event.cause}:${event.key}`));
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(cookie.renew('session')).toBe(true);
+
+        cookie.set('session', '$changed', { ttl: 3600, sliding: true });
+        off();
+
+        expect(events).toEqual(['set:session']);
+    });
+
+    test('throttles the renewals', (): void => {
+        cookie.set('session', '$value', { ttl: 3600, sliding: true });
+
+        jest.advanceTimersByTime(30 * 1000);
+        cookie.get('session');
+        cookie.remember('session', (): string => '$other');
+
+        expect(driver.headers()).toHaveLength(1);
+    });
+
+    test('renews the key at least once per half of its ttl', (): void => {
+        const driver: MemoryCookieDriver = new MemoryCookieDriver;
+        const cookie: Cookie = Cookie.create({ driver, throttle: 3600 });
+
+        cookie.set('session', '$value', { ttl: 10, sliding: true });
+
+        for (let second: number = 0; second < 30; second += 5) {
+            jest.advanceTimersByTime(5 * 1000);
+
+            expect(cookie.get('session')).toBe('$value');
+        }
+    });
+
+    test('stops renewing the key once it is set without the attribute', (): void => {
+        cookie.set('session', '$value', { ttl: 3600, sliding: true });
+        cookie.set('session', '$value', { ttl: 3600 });
+
+        jest.advanceTimersByTime(60 * 1000);
+        cookie.get('session');
+
+        expect(driver.headers()).toHaveLength(2);
+    });
+
+    test('keeps renewing the key updated using the structured helpers', (): void => {
+        cookie.set('visits', 1, { ttl: 3600, sliding: true });
+        cookie.increment('visits');
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(cookie.renew('visits')).toBe(true);
+    });
+
+    test('renews the key using the given attributes', (): void => {
+        const header: HeaderCookieDriver = new HeaderCookieDriver('session=$value');
+        const cookie: Cookie = Cookie.create({ driver: header });
+
+        expect(cookie.renew('session')).toBe(false);
+        expect(cookie.renew('session', { ttl: 60, path: '/' })).toBe(true);
+        expect(header.headers()).toEqual(['session=%sliding:60:path=%2F:$value; expires=Thu, 01 Jan 1970 00:01:00 GMT; path=/']);
+    });
+});
+
+describe('Cookie.migrate', (): void => {
+    let cookie: Cookie;
+
+    beforeEach((): void => {
+        cookie = Cookie.create({ driver: new MemoryCookieDriver });
+    });
+
+    test('runs the steps newer than the stored version, in order', (): void => {
+        const steps: number[] = [];
+
+        cookie.set('cookie_version', 1);
+
+        expect(cookie.migrate({
+            version: 3,
+            steps  : {
+                3: (): number => steps.push(3),
+                1: (): number => steps.push(1),
+                2: (): number => steps.push(2),
+                4: (): number => steps.push(4),
+            },
+        })).toBe(3);
+
+        expect(steps).toEqual([2, 3]);
+        expect(cookie.get('cookie_version')).toBe(3);
+    });
+
+    test('migrates the legacy keys and values', (): void => {
+        cookie.set('theme', 'dark');
+
+        cookie.migrate({
+            version: 2,
+            steps  : {
+                1: (cookie: Cookie): boolean => cookie.rename('theme', 'prefs'),
+                2: (cookie: Cookie): string => cookie.set('prefs', { theme: cookie.get('prefs') }),
+            },
+        });
+
+        expect(cookie.has('theme')).toBe(false);
+        expect(cookie.get('prefs')).toEqual({ theme: 'dark' });
+    });
+
+    test('does not run the steps again', (): void => {
+        const step: jest.Mock = jest.fn();
+
+        cookie.migrate({ version: 1, steps: { 1: step } });
+        cookie.migrate({ version: 1, steps: { 1: step } });
+
+        expect(step).toHaveBeenCalledTimes(1);
+    });
+
+    test('stores the version of the completed steps if a step fails', (): void => {
+        const migration: { version: number, steps: Record<number, (cookie: Cookie) => void>, key: string } = {
+            version: 2,
+            key    : 'schema',
+            steps  : {
+                1: (): void => {},
+                2: (): void => {
+                    throw new Error('Migration failed.');
+                },
+            },
+        };
+
+        expect((): number => cookie.migrate(migration)).toThrow('Migration failed.');
+        expect(cookie.get('schema')).toBe(1);
+    });
+
+    test('keeps the stored version if it is newer', (): void => {
+        cookie.set('cookie_version', 5);
+
+        expect(cookie.migrate({ version: 3, steps: {} })).toBe(5);
+    });
+});
+
+describe('Cookie.batch', (): void => {
+    let driver: MemoryCookieDriver;
+
+    beforeEach((): void => {
+        driver = new MemoryCookieDriver;
+    });
+
+    test('applies the staged writes and removals', (): void => {
+        const cookie: Cookie = Cookie.create({ driver });
+
+        cookie.set('$key1', '$value1');
+
+        const changes: CookieChangeEvent[] = cookie.batch((cookie: Cookie): void => {
+            cookie.set('$key2', '$value2');
+
+            expect(cookie.has('$key2')).toBe(false);
+
+            cookie.remove('$key1');
+        });
+
+        expect(cookie.get('$key1')).toBeNull();
+        expect(cookie.get('$key2')).toBe('$value2');
+        expect(changes).toEqual([
+            { key: '$key2', oldValue: null, newValue: '$value2', cause: 'set' },
+            { key: '$key1', oldValue: '$value1', newValue: null, cause: 'remove' },
+        ]);
+    });
+
+    test('applies nothing if any staged write is invalid', (): void => {
+        const cookie: Cookie = Cookie.create({ driver });
+
+        expect((): CookieChangeEvent[] => cookie.batch((): void => {
+            cookie.set('$key1', '$value1');
+            cookie.set('$key2', '$value2', { sameSite: 'None' });
+        })).toThrow('The "secure" attribute must be set to "true" if "sameSite" is set to "None".');
+
+        expect(cookie.isEmpty()).toBe(true);
+    });
+
+    test('restores the previous values and attributes if applying fails', (): void => {
+        const cookie: Cookie = Cookie.create({ driver, quota: { policy: 'throw', count: 2 } });
+
+        cookie.set('$key1', '$value1', { path: '/app' });
+
+        expect((): CookieChangeEvent[] => cookie.batch((): void => {
+            cookie.set('$key1', '$changed', { path: '/app' });
+            cookie.set('$key2', '$value2');
+            cookie.set('$key3', '$value3');
+        })).toThrow('Writing the cookie "$key3" exceeds the limit of 2 cookies.');
+
+        expect(cookie.getAll('$key1')).toEqual(['$value1']);
+        expect(cookie.has('$key2')).toBe(false);
+        expect(cookie.has('$key3')).toBe(false);
+    });
+
+    test('reports and restores the root cookie of the dot-path writes', (): void => {
+        const cookie: Cookie = Cookie.create({ driver, quota: { policy: 'throw', count: 2 } });
+
+        cookie.set('user', { prefs: { theme: 'light' } });
+
+        expect(cookie.batch((): void => {
+            cookie.set('user.prefs.theme', 'dark');
+        })).toEqual([
+            { key: 'user', oldValue: { prefs: { theme: 'light' } }, newValue: { prefs: { theme: 'dark' } }, cause: 'set' },
+        ]);
+
+        expect((): CookieChangeEvent[] => cookie.batch((): void => {
+            cookie.set('user.prefs.theme', 'light');
+            cookie.set('$key1', '$value1');
+            cookie.set('$key2', '$value2');
+        })).toThrow('Writing the cookie "$key2" exceeds the limit of 2 cookies.');
+
+        expect(cookie.get('user')).toEqual({ prefs: { theme: 'dark' } });
+    });
+
+    test('throws an error if batches are nested', (): void => {
+        const cookie: Cookie = Cookie.create({ driver });
+
+        expect((): CookieChangeEvent[] => cookie.batch((): void => {
+            cookie.batch((): void => {});
+        })).toThrow('Batches cannot be nested.');
+    });
+});
+
+describe('Cookie.remove', (): void => {
+    let driver: MemoryCookieDriver;
+    let cookie: Cookie;
+
+    beforeEach((): void => {
+        driver = new MemoryCookieDriver;
+        cookie = Cookie.create({ driver });
+    });
+
+    test('removes the key set with the domain attribute', (): void => {
+        cookie.set('$key', '$value', { domain: 'example.com' });
+
+        expect(cookie.remove('$key')).toBe(false);
+        expect(cookie.remove('$key', { domain: 'example.com' })).toBe(true);
+    });
+
+    test('removes the key on every path prefix and parent domain', (): void => {
+        location.assign('https://www.app.example.com/account/settings');
+
+        cookie.set('$key', '$value', { path: '/account', domain: 'example.com' });
+        cookie.set('$key', '$value', { path: '/account/settings' });
+        cookie.set('$key', '$value', { domain: 'app.example.com' });
+
+        expect(cookie.remove('$key', { everywhere: true })).toBe(true);
+        expect(driver.get()).toBe('');
+    });
+
+    test('reports the key set outside of the current location is not gone', (): void => {
+        cookie.set('$key', '$value', { path: '/other' });
+
+        expect(cookie.remove('$key', { everywhere: true })).toBe(false);
+        expect(cookie.remove('$key', { everywhere: true, path: '/other' })).toBe(true);
+    });
+
+    test('clears the keys on every path prefix and parent domain', (): void => {
+        location.assign('https://app.example.com/account');
+
+        cookie.set('$key1', '$value1', { path: '/account' });
+        cookie.set('$key2', '$value2', { domain: 'example.com' });
+
+        expect(cookie.clear({ everywhere: true })).toBe(true);
+        expect(cookie.isEmpty()).toBe(true);
+    });
+});
+
 describe('Cookie.clear', (): void => {
     test('clears all keys from the Cookie object', (): void => {
         const key1: string = '$key1';
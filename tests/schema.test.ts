@@ -0,0 +1,68 @@
+import { CookieSchema, schema } from '../src/main';
+
+describe('schema.string', (): void => {
+    test('matches strings and coerces numbers and booleans', (): void => {
+        const string: CookieSchema<string> = schema.string();
+
+        expect(string.parse('$value')).toBe('$value');
+        expect(string.parse(12345)).toBe('12345');
+        expect(string.parse(true)).toBe('true');
+        expect((): string => string.parse({})).toThrow('Expected a string, received object.');
+    });
+});
+
+describe('schema.number', (): void => {
+    test('matches numbers and coerces numeric strings', (): void => {
+        const number: CookieSchema<number> = schema.number();
+
+        expect(number.parse(42)).toBe(42);
+        expect(number.parse('42')).toBe(42);
+        expect((): number => number.parse('')).toThrow('Expected a number, received string.');
+        expect((): number => number.parse('abc')).toThrow('Expected a number, received string.');
+        expect((): number => number.parse(null)).toThrow('Expected a number, received null.');
+    });
+});
+
+describe('schema.boolean', (): void => {
+    test('matches booleans and coerces boolean strings', (): void => {
+        const boolean: CookieSchema<boolean> = schema.boolean();
+
+        expect(boolean.parse(true)).toBe(true);
+        expect(boolean.parse('false')).toBe(false);
+        expect((): boolean => boolean.parse(1)).toThrow('Expected a boolean, received number.');
+    });
+});
+
+describe('schema.enum', (): void => {
+    test('matches one of the given values', (): void => {
+        const theme: CookieSchema<'light' | 'dark' | 1> = schema.enum('light', 'dark', 1);
+
+        expect(theme.parse('dark')).toBe('dark');
+        expect(theme.parse('1')).toBe(1);
+        expect((): string | number => theme.parse('blue')).toThrow('Expected one of "light", "dark", 1, received string.');
+    });
+});
+
+describe('schema.array', (): void => {
+    test('matches arrays of items matching the schema', (): void => {
+        const numbers: CookieSchema<number[]> = schema.array(schema.number());
+
+        expect(numbers.parse([1, '2'])).toEqual([1, 2]);
+        expect((): number[] => numbers.parse('1,2')).toThrow('Expected an array, received string.');
+        expect((): number[] => numbers.parse([1, 'two'])).toThrow('Expected a number, received string.');
+    });
+});
+
+describe('schema.object', (): void => {
+    test('matches objects with properties matching the schemas', (): void => {
+        const prefs: CookieSchema<{ theme: string, size?: number }> = schema.object({
+            theme: schema.string(),
+            size : schema.optional(schema.number()),
+        });
+
+        expect(prefs.parse({ theme: 'dark', size: '12', extra: true })).toEqual({ theme: 'dark', size: 12 });
+        expect(prefs.parse({ theme: 'dark' })).toEqual({ theme: 'dark', size: undefined });
+        expect((): object => prefs.parse([])).toThrow('Expected an object, received array.');
+        expect((): object => prefs.parse({ size: 12 })).toThrow('Invalid property "theme": Expected a string, received undefined.');
+    });
+});
@@ -0,0 +1,104 @@
+import { Cookie, DefaultCookieSerializer, MemoryCookieDriver, TaggedCookieSerializer } from '../src/main';
+
+class Point {
+    constructor(public x: number, public y: number) {
+    }
+}
+
+let serializer: TaggedCookieSerializer;
+
+beforeEach((): void => {
+    serializer = new TaggedCookieSerializer;
+});
+
+describe('DefaultCookieSerializer', (): void => {
+    test('stores strings as they are', (): void => {
+        expect(new DefaultCookieSerializer().stringify('$value')).toBe('$value');
+    });
+
+    test('parses JSON values', (): void => {
+        expect(new DefaultCookieSerializer().parse('{"key":"$value"}')).toEqual({ key: '$value' });
+    });
+});
+
+describe('TaggedCookieSerializer', (): void => {
+    test.each([
+        ['numeric string', '12345'],
+        ['boolean string', 'true'],
+        ['number', 12345],
+        ['boolean', false],
+        ['array', [1, '2', true]],
+    ])('round-trips the %s', (_: string, value: any): void => {
+        expect(serializer.parse(serializer.stringify(value))).toStrictEqual(value);
+    });
+
+    test('round-trips Date values', (): void => {
+        const date: Date = new Date('2024-01-01T00:00:00.000Z');
+
+        expect(serializer.parse(serializer.stringify(date))).toEqual(date);
+    });
+
+    test('round-trips Map, Set and BigInt values', (): void => {
+        const map: Map<string, Set<bigint>> = new Map([['$key', new Set([BigInt(1), BigInt(2)])]]);
+
+        expect(serializer.parse(serializer.stringify(map))).toEqual(map);
+    });
+
+    test('round-trips nested objects', (): void => {
+        const value: object = { created: new Date(0), tags: new Set(['a']), nested: { zip: '12345', count: BigInt(42) } };
+
+        expect(serializer.parse(serializer.stringify(value))).toEqual(value);
+    });
+
+    test('round-trips objects using the reserved "$" property', (): void => {
+        const value: object = { $: 'Date', v: 0 };
+
+        expect(serializer.parse(serializer.stringify(value))).toEqual(value);
+    });
+
+    test('prefixes the stored value', (): void => {
+        expect(serializer.stringify('12345')).toBe('~"12345"');
+    });
+
+    test('returns an empty string for null and undefined values', (): void => {
+        expect(serializer.stringify(null)).toBe('');
+        expect(serializer.stringify(undefined)).toBe('');
+    });
+
+    test('reads values not written by the serializer', (): void => {
+        expect(serializer.parse('$value')).toBe('$value');
+        expect(serializer.parse('42')).toBe(42);
+        expect(serializer.parse('{"key":"$value"}')).toEqual({ key: '$value' });
+        expect(serializer.parse('~$value')).toBe('~$value');
+    });
+
+    test('round-trips values using the registered codec', (): void => {
+        serializer.register<Point>('Point', {
+            test  : (value: unknown): boolean => value instanceof Point,
+            encode: (value: Point): [number, number] => [value.x, value.y],
+            decode: ([x, y]: [number, number]): Point => new Point(x, y),
+        });
+
+        expect(serializer.parse(serializer.stringify({ point: new Point(1, 2) }))).toEqual({ point: new Point(1, 2) });
+    });
+
+    test('throws an error if the reserved type name is registered', (): void => {
+        expect((): TaggedCookieSerializer => serializer.register('Object', {
+            test  : (): boolean => false,
+            encode: (value: unknown): unknown => value,
+            decode: (value: unknown): unknown => value,
+        })).toThrow('The "Object" type name is reserved.');
+    });
+});
+
+describe('Cookie.withSerializer', (): void => {
+    test('preserves the type of the values', (): void => {
+        const cookie: Cookie = Cookie.create({ driver: new MemoryCookieDriver }).withSerializer(serializer);
+
+        cookie.set('zip', '12345');
+        cookie.set('expires', new Date(0));
+
+        expect(cookie.get('zip')).toBe('12345');
+        expect(cookie.get('expires')).toEqual(new Date(0));
+    });
+});
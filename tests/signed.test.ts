@@ -0,0 +1,114 @@
+import { Cookie, MemoryCookieDriver, SignedCookie, SignedCookieVerification } from '../src/main';
+
+let driver: MemoryCookieDriver;
+let cookie: Cookie;
+
+beforeEach((): void => {
+    driver = new MemoryCookieDriver;
+    cookie = Cookie.create({ driver });
+});
+
+describe('SignedCookie.set', (): void => {
+    test('stores the value with its signature', async (): Promise<void> => {
+        const signed: SignedCookie = cookie.signed('$secret');
+
+        await signed.set('$key', '$value');
+
+        expect(driver.get()).toMatch(/^\$key=[\w-]{43}\.\$value$/);
+    });
+});
+
+describe('SignedCookie.get', (): void => {
+    test('returns the value with a valid signature', async (): Promise<void> => {
+        const signed: SignedCookie = cookie.signed('$secret');
+        const value: object = { plan: 'pro', variant: 'B' };
+
+        await signed.set('$key', value);
+
+        expect(await signed.get('$key')).toEqual(value);
+    });
+
+    test('returns the fallback if the value was tampered with', async (): Promise<void> => {
+        const signed: SignedCookie = cookie.signed('$secret');
+
+        await signed.set('$key', 'free');
+
+        cookie.set('$key', (cookie.get('$key') as string).replace('free', 'pro'));
+
+        expect(await signed.get('$key', 'fallback')).toBe('fallback');
+        expect(await signed.get('$key', (): string => 'fallback')).toBe('fallback');
+    });
+
+    test('returns the fallback if the signature was created for a different key', async (): Promise<void> => {
+        const signed: SignedCookie = cookie.signed('$secret');
+
+        await signed.set('$key1', '$value');
+
+        cookie.set('$key2', cookie.get('$key1'));
+
+        expect(await signed.get('$key2')).toBeNull();
+    });
+
+    test('verifies values signed with rotated secrets', async (): Promise<void> => {
+        await cookie.signed('$old').set('$key', '$value');
+
+        expect(await cookie.signed(['$new', '$old']).get('$key')).toBe('$value');
+        expect(await cookie.signed('$new').get('$key')).toBeNull();
+    });
+});
+
+describe('SignedCookie.verify', (): void => {
+    test('reports a valid signature', async (): Promise<void> => {
+        const signed: SignedCookie = cookie.signed('$secret');
+
+        await signed.set('$key', 42);
+
+        expect(await signed.verify('$key')).toEqual<SignedCookieVerification>({ valid: true, value: 42, reason: null });
+    });
+
+    test('reports a missing key', async (): Promise<void> => {
+        expect(await cookie.signed('$secret').verify('$key')).toEqual<SignedCookieVerification>({ valid: false, value: null, reason: 'missing' });
+    });
+
+    test('reports an unsigned value', async (): Promise<void> => {
+        cookie.set('$key', '$value');
+
+        expect(await cookie.signed('$secret').verify('$key')).toEqual<SignedCookieVerification>({ valid: false, value: null, reason: 'unsigned' });
+    });
+
+    test('reports an invalid signature', async (): Promise<void> => {
+        await cookie.signed('$other').set('$key', '$value');
+
+        expect(await cookie.signed('$secret').verify('$key')).toEqual<SignedCookieVerification>({ valid: false, value: null, reason: 'invalid' });
+    });
+});
+
+describe('SignedCookie.has', (): void => {
+    test('determines if the key exists with a valid signature', async (): Promise<void> => {
+        const signed: SignedCookie = cookie.signed('$secret');
+
+        cookie.set('$key1', '$value');
+        await signed.set('$key2', '$value');
+
+        expect(await signed.has('$key1')).toBe(false);
+        expect(await signed.has('$key2')).toBe(true);
+    });
+});
+
+describe('SignedCookie.remove', (): void => {
+    test('removes the key from the Cookie', async (): Promise<void> => {
+        const signed: SignedCookie = cookie.signed('$secret');
+
+        await signed.set('$key', '$value');
+
+        expect(signed.remove('$key')).toBe(true);
+
+        expect(driver.get()).toBe('');
+    });
+});
+
+describe('Cookie.signed', (): void => {
+    test('throws an error if no secrets are provided', (): void => {
+        expect((): SignedCookie => Cookie.signed([])).toThrow('At least one secret must be provided to sign cookies.');
+    });
+});
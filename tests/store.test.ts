@@ -0,0 +1,126 @@
+import { Cookie, CookieValueStore, MemoryCookieDriver } from '../src/main';
+
+let cookie: Cookie;
+let unsubscribe: () => void = (): void => {};
+
+beforeEach((): void => {
+    cookie = Cookie.create({ driver: new MemoryCookieDriver });
+});
+
+afterEach((): void => {
+    unsubscribe();
+});
+
+describe('Cookie.store', (): void => {
+    test('calls the subscriber with the current value right away', (): void => {
+        const values: string[] = [];
+
+        cookie.set('theme', 'dark');
+        unsubscribe = cookie.store('theme', 'light').subscribe((value: string): number => values.push(value));
+
+        expect(values).toEqual(['dark']);
+    });
+
+    test('notifies the subscribers of the changes made through the Cookie', (): void => {
+        const values: string[] = [];
+
+        unsubscribe = cookie.store('theme', 'light').subscribe((value: string): number => values.push(value));
+
+        cookie.set('theme', 'dark');
+        cookie.remove('theme');
+
+        expect(values).toEqual(['light', 'dark', 'light']);
+    });
+
+    test('ignores the changes of other keys', (): void => {
+        const subscriber: jest.Mock = jest.fn();
+
+        unsubscribe = cookie.store('theme').subscribe(subscriber);
+
+        cookie.set('$key', '$value');
+
+        expect(subscriber).toHaveBeenCalledTimes(1);
+    });
+
+    test('sets and updates the value', (): void => {
+        const store: CookieValueStore<number> = cookie.store('visits', 0);
+
+        store.set(1, { path: '/' });
+        store.update((visits: number): number => visits + 1);
+
+        expect(cookie.get('visits')).toBe(2);
+        expect(store.get()).toBe(2);
+    });
+
+    test('stops notifying the subscriber once unsubscribed', (): void => {
+        const subscriber: jest.Mock = jest.fn();
+
+        cookie.store('theme').subscribe(subscriber)();
+        cookie.set('theme', 'dark');
+
+        expect(subscriber).toHaveBeenCalledTimes(1);
+    });
+
+    test('keeps the snapshot the same between changes', (): void => {
+        const store: CookieValueStore<{ theme: string }> = cookie.store('prefs', { theme: 'light' });
+
+        cookie.set('prefs', { theme: 'dark' });
+        unsubscribe = store.subscribe((): void => {});
+
+        const snapshot: { theme: string } = store.getSnapshot();
+
+        expect(store.getSnapshot()).toBe(snapshot);
+
+        cookie.set('prefs', { theme: 'light' });
+
+        expect(store.getSnapshot()).not.toBe(snapshot);
+        expect(store.getSnapshot()).toEqual({ theme: 'light' });
+    });
+
+    test('keeps the snapshot the same without subscribers', (): void => {
+        const store: CookieValueStore<{ theme: string }> = cookie.store('prefs', (): { theme: string } => ({ theme: 'light' }));
+
+        expect(store.getSnapshot()).toBe(store.getSnapshot());
+
+        cookie.set('prefs', { theme: 'dark' });
+
+        const snapshot: { theme: string } = store.getSnapshot();
+
+        expect(snapshot).toEqual({ theme: 'dark' });
+        expect(store.getSnapshot()).toBe(snapshot);
+    });
+
+    test('supports passing the methods around', (): void => {
+        const { subscribe, getSnapshot } = cookie.store('theme', 'light');
+        const listener: jest.Mock = jest.fn();
+
+        unsubscribe = subscribe(listener);
+        cookie.set('theme', 'dark');
+
+        expect(listener).toHaveBeenLastCalledWith('dark');
+        expect(getSnapshot()).toBe('dark');
+    });
+
+    test('notifies the subscribers of the changes of the dot-path key', (): void => {
+        const values: string[] = [];
+
+        cookie.set('user', { prefs: { theme: 'light' }, name: 'John' });
+        unsubscribe = cookie.store('user.prefs.theme', 'light').subscribe((value: string): number => values.push(value));
+
+        cookie.set('user.prefs.theme', 'dark');
+        cookie.set('user.name', 'Jane');
+        cookie.set('user', { prefs: { theme: 'light' } });
+
+        expect(values).toEqual(['light', 'dark', 'light']);
+    });
+
+    test('binds the key within the namespace', (): void => {
+        const subscriber: jest.Mock = jest.fn();
+
+        unsubscribe = cookie.namespace('app').store('theme').subscribe(subscriber);
+
+        cookie.set('app.theme', 'dark');
+
+        expect(subscriber).toHaveBeenLastCalledWith('dark');
+    });
+});
@@ -0,0 +1,182 @@
+import { Cookie, DocumentCookieDriver } from '../src/main';
+import { DocumentCookie, EmulatedCookie, matchers } from '../src/testing';
+
+expect.extend(matchers);
+
+let document: DocumentCookie;
+
+beforeEach((): void => {
+    document = new DocumentCookie({ url: 'https://app.example.com/account/settings', now: Date.parse('2024-01-01T00:00:00Z') });
+});
+
+describe('DocumentCookie', (): void => {
+    test('stores the cookie under the default path', (): void => {
+        document.cookie = '$key=$value';
+
+        expect(document).toHaveCookieWith('$key', { value: '$value', path: '/account', domain: 'app.example.com' });
+    });
+
+    test('exposes the cookie only on the matching paths', (): void => {
+        document.cookie = '$key=$value; path=/account';
+
+        document.location.assign('/accounting');
+        expect(document.cookie).toBe('');
+
+        document.location.assign('/account/profile');
+        expect(document).toHaveCookie('$key', '$value');
+    });
+
+    test('exposes the cookie to the subdomains only if the domain is set', (): void => {
+        document.cookie = 'host=$value; path=/';
+        document.cookie = 'shared=$value; path=/; domain=example.com';
+
+        document.location.assign('https://example.com/');
+
+        expect(document.cookie).toBe('shared=$value');
+    });
+
+    test('ignores the cookie of a foreign domain', (): void => {
+        document.cookie = '$key=$value; domain=other.com';
+        document.cookie = '$key=$value; domain=com';
+
+        expect(document.all()).toEqual([]);
+    });
+
+    test('orders the cookies by the path length and the creation time', (): void => {
+        document.cookie = 'a=1; path=/';
+        document.advance(1000);
+        document.cookie = 'b=2; path=/account';
+        document.cookie = 'c=3; path=/';
+
+        expect(document.cookie).toBe('b=2; a=1; c=3');
+    });
+
+    test('overwrites the cookie, keeping its creation time', (): void => {
+        document.cookie = 'a=1; path=/';
+        document.advance(1000);
+        document.cookie = 'b=2; path=/';
+        document.advance(1000);
+        document.cookie = 'a=3; path=/';
+
+        expect(document.cookie).toBe('a=3; b=2');
+    });
+
+    test('expires the cookie once the clock passes its expiry', (): void => {
+        document.cookie = '$key=$value; max-age=60';
+
+        document.advance(59000);
+        expect(document).toHaveCookie('$key');
+
+        document.advance(1000);
+        expect(document).not.toHaveCookie('$key');
+    });
+
+    test('prefers the max-age attribute over the expires attribute', (): void => {
+        document.cookie = `$key=$value; expires=${new Date(0).toUTCString()}; max-age=60`;
+
+        expect(document).toHaveCookieWith('$key', { expires: document.now() + 60000 });
+    });
+
+    test('removes the cookie with an expiry in the past', (): void => {
+        document.cookie = '$key=$value';
+        document.cookie = '$key=; max-age=0';
+
+        expect(document.all()).toEqual([]);
+    });
+
+    test('hides Secure cookies from insecure origins and rejects their writes', (): void => {
+        document.cookie = '$key=$value; path=/; secure';
+        document.location.assign('http://app.example.com/');
+
+        expect(document.cookie).toBe('');
+
+        document.cookie = '$key=$insecure; path=/';
+        document.cookie = 'other=$value; secure';
+
+        expect(document).toHaveCookieWith('$key', { value: '$value', secure: true });
+        expect(document.all()).toHaveLength(1);
+    });
+
+    test('rejects SameSite=None and Partitioned cookies without the Secure attribute', (): void => {
+        document.cookie = 'a=1; samesite=none';
+        document.cookie = 'b=2; partitioned';
+        document.cookie = 'c=3; samesite=none; secure; partitioned';
+
+        expect(document.all().map((cookie: EmulatedCookie): string => cookie.name)).toEqual(['c']);
+        expect(document).toHaveCookieWith('c', { sameSite: 'None', partitioned: true });
+    });
+
+    test('exposes only SameSite=None cookies in a cross-site context', (): void => {
+        document.cookie = 'lax=1; path=/; samesite=lax';
+        document.cookie = 'none=2; path=/; samesite=none; secure';
+        document.crossSite = true;
+
+        expect(document.cookie).toBe('none=2');
+    });
+
+    test('enforces the requirements of the cookie name prefixes', (): void => {
+        document.cookie = '__Secure-a=1';
+        document.cookie = '__Host-b=2; secure; path=/account';
+        document.cookie = '__Host-c=3; secure; path=/; domain=example.com';
+        document.cookie = '__Host-d=4; secure; path=/';
+
+        expect(document.all().map((cookie: EmulatedCookie): string => cookie.name)).toEqual(['__Host-d']);
+    });
+
+    test('ignores HttpOnly and oversized cookies', (): void => {
+        document.cookie = 'a=1; httponly';
+        document.cookie = `b=${'x'.repeat(4096)}`;
+
+        expect(document.all()).toEqual([]);
+    });
+
+    test('evicts the oldest cookies of the domain past the limit', (): void => {
+        const limited: DocumentCookie = new DocumentCookie({ count: 2 });
+
+        limited.cookie = 'a=1';
+        limited.cookie = 'b=2';
+        limited.cookie = 'c=3';
+
+        expect(limited.cookie).toBe('b=2; c=3');
+    });
+
+    test('installs itself as the global document and location', (): void => {
+        const installed: DocumentCookie = DocumentCookie.install({ url: 'https://example.com/' });
+
+        Cookie.create({ driver: new DocumentCookieDriver }).set('$key', '$value', { path: '/', sameSite: 'Strict' });
+
+        expect(installed).toHaveCookieWith('$key', { value: '$value', path: '/', sameSite: 'Strict' });
+
+        installed.uninstall();
+
+        expect((globalThis as { document?: unknown }).document).toBeUndefined();
+    });
+});
+
+describe('toHaveCookie', (): void => {
+    test('compares the objects in their JSON form', (): void => {
+        document.cookie = '$key={"data":1}; path=/';
+
+        expect(document).toHaveCookie('$key', { data: 1 });
+        expect(document.cookie).toHaveCookie('$key', '{"data":1}');
+        expect(document).not.toHaveCookie('$key', { data: 2 });
+    });
+
+    test('encodes the name and the value if requested', (): void => {
+        document.cookie = `${encodeURIComponent('ključ')}=${encodeURIComponent('vrednost ć')}; path=/`;
+
+        expect(document).toHaveCookie('ključ', 'vrednost ć', true);
+        expect(document).not.toHaveCookie('ključ', 'vrednost ć');
+    });
+});
+
+describe('toHaveCookieWith', (): void => {
+    test('compares the expiry with a precision of one second', (): void => {
+        const expires: Date = new Date(document.now() + 3600000);
+
+        document.cookie = `$key=$value; expires=${expires.toUTCString()}`;
+
+        expect(document).toHaveCookieWith('$key', { expires: new Date(expires.getTime() + 500) });
+        expect(document).not.toHaveCookieWith('$key', { expires: null });
+    });
+});